@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  archivesToRetire,
+  findArchives,
+  formatArchiveName,
+  formatDate,
+  parseArchiveNameTemplate,
+  parseArchiveRetention,
+  parseTimeZone
+} from "../archive";
+
+const tab = (title: string, index: number, hidden = false) => ({
+  sheetId: index,
+  title,
+  index,
+  hidden
+});
+
+describe("parseArchiveNameTemplate", () => {
+  it("defaults to the date and requires it", () => {
+    expect(parseArchiveNameTemplate("")).toBe("{date}");
+    expect(parseArchiveNameTemplate("{app} {date} {version}")).toBe("{app} {date} {version}");
+    expect(() => parseArchiveNameTemplate("{version}")).toThrow("It must contain {date}");
+    expect(() => parseArchiveNameTemplate("{date} {env}")).toThrow("unknown placeholder {env}");
+  });
+});
+
+describe("parseTimeZone", () => {
+  it("accepts IANA names and keeps local time when empty", () => {
+    expect(parseTimeZone(" Europe/Oslo ")).toBe("Europe/Oslo");
+    expect(parseTimeZone("")).toBe("");
+    expect(() => parseTimeZone("Mars/Olympus")).toThrow('Invalid archive-timezone: "Mars/Olympus"');
+  });
+});
+
+describe("formatDate", () => {
+  it("uses the date in the time zone", () => {
+    const eveningInOslo = new Date("2026-02-16T23:30:00Z");
+    expect(formatDate(eveningInOslo, "UTC")).toBe("2026-02-16");
+    expect(formatDate(eveningInOslo, "Europe/Oslo")).toBe("2026-02-17");
+    expect(formatDate(new Date("2026-02-16T03:00:00Z"), "America/New_York")).toBe("2026-02-15");
+  });
+});
+
+describe("formatArchiveName", () => {
+  it("fills in placeholders and replaces characters tab names cannot hold", () => {
+    const values = { date: "2026-02-16", version: "#1.2/3", app: "Web" };
+    expect(formatArchiveName("{date} {app} {version}", values)).toBe("2026-02-16 Web #1.2-3");
+    expect(formatArchiveName("{date} {version}", { ...values, version: "" })).toBe("2026-02-16");
+  });
+});
+
+describe("findArchives", () => {
+  it("finds archives by the template, newest first", () => {
+    const tabs = [
+      tab("Next", 0),
+      tab("2026-02-16 v1.2", 1),
+      tab("2026-02-16 v1.3 (2)", 2),
+      tab("2026-03-01", 3),
+      tab("Template", 4),
+      tab("Deployment log", 5)
+    ];
+    expect(findArchives(tabs, "{date} {version}").map((t) => t.title)).toEqual([
+      "2026-03-01",
+      "2026-02-16 v1.3 (2)",
+      "2026-02-16 v1.2"
+    ]);
+    expect(findArchives(tabs, "{date}").map((t) => t.title)).toEqual(["2026-03-01"]);
+  });
+});
+
+describe("parseArchiveRetention", () => {
+  it("keeps every archive by default and validates the action", () => {
+    expect(parseArchiveRetention("", "", "", "csv")).toEqual({
+      keep: null,
+      action: "hide",
+      destination: ""
+    });
+    expect(parseArchiveRetention("12", "Move", " archive-id ", "google-sheets")).toEqual({
+      keep: 12,
+      action: "move",
+      destination: "archive-id"
+    });
+    expect(() => parseArchiveRetention("0", "", "", "xlsx")).toThrow(
+      'Invalid archive-retention: "0"'
+    );
+    expect(() => parseArchiveRetention("5", "archive", "", "xlsx")).toThrow(
+      'Invalid archive-retention-action: "archive"'
+    );
+    expect(() => parseArchiveRetention("5", "move", "", "xlsx")).toThrow(
+      "move needs archive-destination"
+    );
+    expect(() => parseArchiveRetention("5", "hide", "", "csv")).toThrow(
+      "The csv tracker cannot hide tabs"
+    );
+  });
+});
+
+describe("archivesToRetire", () => {
+  const tabs = [
+    tab("Next", 0),
+    tab("2026-03-01", 1),
+    tab("2026-02-16", 2),
+    tab("2026-02-01", 3, true),
+    tab("2026-01-15", 4)
+  ];
+
+  it("returns archives past the count, skipping hidden ones when hiding", () => {
+    const retire = (keep: number | null, action: "hide" | "delete") =>
+      archivesToRetire(tabs, "{date}", { keep, action, destination: "" }).map((t) => t.title);
+    expect(retire(null, "delete")).toEqual([]);
+    expect(retire(2, "delete")).toEqual(["2026-02-01", "2026-01-15"]);
+    expect(retire(2, "hide")).toEqual(["2026-01-15"]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@actions/core", () => ({
+  info: vi.fn()
+}));
+
+import { appendAuditLog, AUDIT_LOG_HEADERS, buildAuditRows } from "../audit";
+import { DEFAULT_CONFIG } from "../config";
+
+const audit = {
+  tabName: "Deployment log",
+  baseTag: "v1.0.0-stage",
+  headTag: "v1.1.0-stage",
+  actor: "octocat",
+  runUrl: "https://github.com/o/r/actions/runs/42"
+};
+
+const pr = (issue: string, url: string) => ({
+  issue,
+  title: "",
+  author: "",
+  environment: "stage",
+  app: "web",
+  url
+});
+
+describe("buildAuditRows", () => {
+  it("writes one row per ticket and PR with the run details", () => {
+    const rows = buildAuditRows(
+      [pr("ADV-1", "https://github.com/o/r/pull/1"), pr("ADV-1", "https://github.com/o/r/pull/1")],
+      "#1.1.0",
+      audit,
+      DEFAULT_CONFIG,
+      new Date("2026-02-16T10:00:00Z")
+    );
+    expect(rows).toEqual([
+      [
+        "2026-02-16T10:00:00.000Z",
+        "Stage",
+        "Web",
+        "#1.1.0",
+        "v1.0.0-stage",
+        "v1.1.0-stage",
+        "ADV-1",
+        "https://github.com/o/r/pull/1",
+        "octocat",
+        "https://github.com/o/r/actions/runs/42"
+      ]
+    ]);
+  });
+
+  it("leaves out reverted tickets", () => {
+    const reverted = { ...pr("ADV-2", "https://github.com/o/r/pull/2"), reverted: true };
+    const rows = buildAuditRows(
+      [pr("ADV-1", "https://github.com/o/r/pull/1"), reverted],
+      "#1.1.0",
+      audit,
+      DEFAULT_CONFIG
+    );
+    expect(rows.map((r) => r[6])).toEqual(["ADV-1"]);
+  });
+});
+
+describe("appendAuditLog", () => {
+  function fakeContext(titles: string[]) {
+    const batchUpdate = vi.fn(async () => ({ data: {} }));
+    const append = vi.fn(async () => ({ data: {} }));
+    // Metadata the sync already cached, so no spreadsheets.get is needed
+    const ctx = {
+      sheets: { spreadsheets: { batchUpdate, values: { append } } },
+      spreadsheetId: "sheet",
+      metadata: { sheets: titles.map((title) => ({ properties: { title } })) }
+    } as unknown as Parameters<typeof appendAuditLog>[0];
+    return { ctx, batchUpdate, append };
+  }
+
+  const rows = [["2026-02-16T10:00:00.000Z", "Stage", "Web"]];
+
+  it("creates a missing log tab with a header row", async () => {
+    const { ctx, batchUpdate, append } = fakeContext(["Next", "Template"]);
+    await appendAuditLog(ctx, "Deployment log", rows);
+    expect(batchUpdate).toHaveBeenCalledWith({
+      spreadsheetId: "sheet",
+      requestBody: { requests: [{ addSheet: { properties: { title: "Deployment log" } } }] }
+    });
+    expect(append).toHaveBeenCalledWith(
+      expect.objectContaining({
+        range: "'Deployment log'!A1",
+        insertDataOption: "INSERT_ROWS",
+        requestBody: { values: [AUDIT_LOG_HEADERS, ...rows] }
+      })
+    );
+    expect(ctx.metadata).toBeNull();
+  });
+
+  it("appends to an existing log tab", async () => {
+    const { ctx, batchUpdate, append } = fakeContext(["Next", "Deployment log"]);
+    await appendAuditLog(ctx, "Deployment log", rows);
+    expect(batchUpdate).not.toHaveBeenCalled();
+    expect(append).toHaveBeenCalledWith(expect.objectContaining({ requestBody: { values: rows } }));
+    expect(ctx.metadata).not.toBeNull();
+  });
+
+  it("does nothing without rows", async () => {
+    const { ctx, append } = fakeContext([]);
+    await appendAuditLog(ctx, "Deployment log", []);
+    expect(append).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { parse } from "yaml";
+import { cliHost, INPUT_NAMES, parseCliArgs } from "../cli";
+
+describe("parseCliArgs", () => {
+  it("reads the command, spaced and inline values, and bare boolean flags", () => {
+    expect(
+      parseCliArgs(["sync", "--env", "stage", "--head-tag=v1.2.0", "--dry-run", "--app", "web"])
+    ).toEqual({
+      command: "sync",
+      flags: { environment: "stage", "head-tag": "v1.2.0", "dry-run": "true", app: "web" }
+    });
+  });
+
+  it("rejects unknown options and extra arguments", () => {
+    expect(() => parseCliArgs(["sync", "--head", "v1"])).toThrow("Unknown option: --head");
+    expect(() => parseCliArgs(["sync", "stage"])).toThrow('Unexpected argument: "stage"');
+  });
+
+  it("accepts every action.yml input", () => {
+    const action = parse(fs.readFileSync(path.join(__dirname, "../../action.yml"), "utf8"));
+    expect(INPUT_NAMES).toEqual(Object.keys(action.inputs));
+  });
+});
+
+describe("cliHost", () => {
+  const env = {
+    GITHUB_REPOSITORY: "octo/app",
+    GITHUB_TOKEN: "gh-token",
+    SHEETS_SYNC_SPREADSHEET_ID: "sheet-id",
+    SHEETS_SYNC_APP: "admin",
+    USER: "alice"
+  };
+
+  it("reads flags first, then SHEETS_SYNC_ variables, then GITHUB_TOKEN", () => {
+    const host = cliHost({ app: "web" }, env);
+    expect(host.getInput("app")).toBe("web");
+    expect(host.getInput("spreadsheet-id")).toBe("sheet-id");
+    expect(host.getInput("github-token")).toBe("gh-token");
+    expect(host.getInput("head-tag")).toBe("");
+  });
+
+  it("takes the repository and pull request from flags", () => {
+    const { context } = cliHost({ repo: "acme/site", pr: "12" }, env);
+    expect(context).toMatchObject({ owner: "acme", repo: "site", prNumber: 12, actor: "alice" });
+    expect(cliHost({}, env).context).toMatchObject({ owner: "octo", repo: "app", prNumber: null });
+  });
+
+  it("requires a repository and a numeric pull request", () => {
+    expect(() => cliHost({}, {})).toThrow("--repo <owner/repo> is required");
+    expect(() => cliHost({ pr: "abc" }, env)).toThrow('Invalid --pr: "abc"');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  columnLetter,
+  findColumns,
+  findLabelCell,
+  isCellReference,
+  parseColumnMapping,
+  parseVersionCells
+} from "../columns";
+
+const templateRows = [
+  ["Last version deployed", "", "", "", "", "", "", "New version"],
+  ["#20250101.1.0", "", "", "", "", "", "", "#20250615.2.0"],
+  [],
+  ["Issue", "Status", "Assignee", "Environment", "App", "Notes"]
+];
+
+describe("parseColumnMapping", () => {
+  it("returns default headers for empty input", () => {
+    expect(parseColumnMapping("").issue).toBe("Issue");
+    expect(parseColumnMapping("").environment).toBe("Environment");
+  });
+
+  it("overrides headers from comma- and newline-separated pairs", () => {
+    const headers = parseColumnMapping("issue=Ticket, environment = Env\ntitle=Summary");
+    expect(headers.issue).toBe("Ticket");
+    expect(headers.environment).toBe("Env");
+    expect(headers.title).toBe("Summary");
+    expect(headers.status).toBe("Status");
+  });
+
+  it("throws for unknown fields", () => {
+    expect(() => parseColumnMapping("owner=Owner")).toThrow('Unknown column-mapping key: "owner"');
+  });
+
+  it("throws for entries without a value", () => {
+    expect(() => parseColumnMapping("issue")).toThrow("Expected format: key=value");
+  });
+});
+
+describe("parseVersionCells", () => {
+  it("defaults to H2 and A2", () => {
+    expect(parseVersionCells("")).toEqual({ "new-version": "H2", "last-version": "A2" });
+  });
+
+  it("accepts labels and named ranges", () => {
+    expect(parseVersionCells("new-version=New version, last-version=LastVersion")).toEqual({
+      "new-version": "New version",
+      "last-version": "LastVersion"
+    });
+  });
+});
+
+describe("columnLetter", () => {
+  it("converts indices to letters", () => {
+    expect(columnLetter(0)).toBe("A");
+    expect(columnLetter(4)).toBe("E");
+    expect(columnLetter(25)).toBe("Z");
+    expect(columnLetter(26)).toBe("AA");
+    expect(columnLetter(701)).toBe("ZZ");
+  });
+});
+
+describe("isCellReference", () => {
+  it("recognises A1 cells", () => {
+    expect(isCellReference("H2")).toBe(true);
+    expect(isCellReference("aa10")).toBe(true);
+  });
+
+  it("rejects labels and ranges", () => {
+    expect(isCellReference("New version")).toBe(false);
+    expect(isCellReference("A1:B2")).toBe(false);
+    expect(isCellReference("A0")).toBe(false);
+  });
+});
+
+describe("findColumns", () => {
+  it("finds the header row and column indices", () => {
+    const layout = findColumns(templateRows);
+    expect(layout.headerRowIndex).toBe(3);
+    expect(layout.columns).toEqual({ issue: 0, status: 1, assignee: 2, environment: 3, app: 4 });
+  });
+
+  it("finds reordered and optional columns case-insensitively", () => {
+    const layout = findColumns([
+      ["Title", "issue", "APP", "Environment", "Assignee", "Status", "PR"]
+    ]);
+    expect(layout.columns).toEqual({
+      issue: 1,
+      status: 5,
+      assignee: 4,
+      environment: 3,
+      app: 2,
+      title: 0,
+      pr: 6
+    });
+  });
+
+  it("uses mapped header names", () => {
+    const headers = parseColumnMapping("issue=Ticket, environment=Env");
+    const layout = findColumns([["Ticket", "Status", "Assignee", "Env", "App"]], headers);
+    expect(layout.columns.issue).toBe(0);
+    expect(layout.columns.environment).toBe(3);
+  });
+
+  it("throws a schema error when the header row is missing", () => {
+    expect(() => findColumns([["foo"], ["bar"]])).toThrow(
+      'Sheet schema error: could not find a header row containing "Issue"'
+    );
+  });
+
+  it("throws a schema error listing missing required columns", () => {
+    expect(() => findColumns([["Issue", "Status", "Assignee"]])).toThrow(
+      'missing required column(s) "Environment", "App" in header row 1'
+    );
+  });
+});
+
+describe("findLabelCell", () => {
+  it("returns the cell below the label", () => {
+    expect(findLabelCell(templateRows, "New version")).toBe("H2");
+    expect(findLabelCell(templateRows, "last version deployed")).toBe("A2");
+  });
+
+  it("only searches the given number of rows", () => {
+    expect(findLabelCell(templateRows, "Issue", 3)).toBeNull();
+  });
+
+  it("returns null when the label is missing", () => {
+    expect(findLabelCell(templateRows, "Version")).toBeNull();
+  });
+});
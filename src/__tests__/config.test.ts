@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+vi.mock("@actions/core", () => ({
+  info: vi.fn()
+}));
+
+import {
+  archiveEnvironment,
+  DEFAULT_CONFIG,
+  environmentChoices,
+  findEnvironment,
+  loadConfig,
+  parseConfig
+} from "../config";
+import { formatApp, formatEnvironment } from "../sheets";
+
+const CONFIG = `
+apps:
+  - name: web
+  - name: api
+    label: API
+environments:
+  - name: internal
+    aliases: [int, InternalTest]
+    tag-suffix: int
+  - name: preprod
+    label: Pre-production
+  - name: production
+    aliases: [prod]
+    tag-suffix: prod
+`;
+
+describe("parseConfig", () => {
+  it("parses apps and environments with labels, aliases and tag suffixes", () => {
+    const config = parseConfig(CONFIG, "sheets-sync.yml");
+    expect(config.apps).toEqual([
+      { name: "web", label: "Web" },
+      { name: "api", label: "API" }
+    ]);
+    expect(config.environments).toEqual([
+      {
+        name: "internal",
+        label: "Internal",
+        aliases: ["int", "internaltest"],
+        tagSuffix: "int",
+        archive: false
+      },
+      { name: "preprod", label: "Pre-production", aliases: [], tagSuffix: "", archive: false },
+      {
+        name: "production",
+        label: "Production",
+        aliases: ["prod"],
+        tagSuffix: "prod",
+        archive: true
+      }
+    ]);
+  });
+
+  it("archives in the last environment unless another one sets archive", () => {
+    const archiving = (environments: string) =>
+      archiveEnvironment(
+        parseConfig(`apps: [{name: web}]\nenvironments: ${environments}`, "c.yml")
+      );
+    expect(archiving("[{name: stage}, {name: live}]")).toBe("live");
+    expect(archiving("[{name: stage}, {name: live, archive: true}, {name: hotfix}]")).toBe("live");
+    expect(archiveEnvironment(DEFAULT_CONFIG)).toBe("production");
+    expect(() => archiving("[{name: stage, archive: true}, {name: live, archive: true}]")).toThrow(
+      "only one environment can set archive (stage, live)"
+    );
+    expect(() => archiving("[{name: stage, archive: yes please}]")).toThrow(
+      "environments[0].archive must be true or false"
+    );
+  });
+
+  it("rejects missing or empty lists", () => {
+    expect(() => parseConfig("apps: []\nenvironments: [{name: stage}]", "c.yml")).toThrow(
+      'Invalid config file c.yml: "apps" must be a non-empty list'
+    );
+    expect(() => parseConfig("apps: [{name: web}]", "c.yml")).toThrow(
+      '"environments" must be a non-empty list'
+    );
+  });
+
+  it("rejects unknown keys", () => {
+    expect(() =>
+      parseConfig("apps: [{name: web}]\nenvironments: [{name: stage}]\nteams: []", "c.yml")
+    ).toThrow("unknown key(s): teams");
+    expect(() =>
+      parseConfig("apps: [{name: web, colour: red}]\nenvironments: [{name: stage}]", "c.yml")
+    ).toThrow("apps[0] has unknown key(s): colour");
+  });
+
+  it("rejects entries without a name", () => {
+    expect(() => parseConfig("apps: [web]\nenvironments: [{name: stage}]", "c.yml")).toThrow(
+      'apps[0] must be a mapping with at least a "name"'
+    );
+    expect(() => parseConfig("apps: [{name: web}]\nenvironments: [{label: X}]", "c.yml")).toThrow(
+      "environments[0].name must be a non-empty string"
+    );
+  });
+
+  it("rejects duplicate apps and aliases used by two environments", () => {
+    expect(() =>
+      parseConfig("apps: [{name: web}, {name: Web}]\nenvironments: [{name: stage}]", "c.yml")
+    ).toThrow('app "web" is declared more than once');
+    expect(() =>
+      parseConfig(
+        "apps: [{name: web}]\nenvironments: [{name: stage, aliases: [pre]}, {name: pre}]",
+        "c.yml"
+      )
+    ).toThrow('"pre" in environments[1] is already used by environment "stage"');
+  });
+
+  it("rejects invalid YAML", () => {
+    expect(() => parseConfig("apps: [", "c.yml")).toThrow("Invalid config file c.yml");
+  });
+});
+
+describe("loadConfig", () => {
+  it("falls back to the defaults when the default file does not exist", () => {
+    const cwd = process.cwd();
+    process.chdir(os.tmpdir());
+    try {
+      expect(loadConfig("")).toBe(DEFAULT_CONFIG);
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  it("throws when an explicit file does not exist", () => {
+    expect(() => loadConfig("missing/sheets-sync.yml")).toThrow(
+      "Config file not found: missing/sheets-sync.yml"
+    );
+  });
+
+  it("reads an explicit file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sheets-sync-"));
+    const file = path.join(dir, "sheets-sync.yml");
+    fs.writeFileSync(file, CONFIG);
+    try {
+      expect(loadConfig(file).apps.map((a) => a.name)).toEqual(["web", "api"]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("config lookups", () => {
+  const config = parseConfig(CONFIG, "sheets-sync.yml");
+
+  it("finds environments by name or alias", () => {
+    expect(findEnvironment(config, "InternalTest")?.name).toBe("internal");
+    expect(findEnvironment(config, "PreProd")?.name).toBe("preprod");
+    expect(findEnvironment(config, "stage")).toBeUndefined();
+    expect(environmentChoices(config)).toEqual([
+      "internal",
+      "int",
+      "internaltest",
+      "preprod",
+      "production",
+      "prod"
+    ]);
+  });
+
+  it("provides the labels written to the sheet", () => {
+    expect(formatEnvironment("preprod", config)).toBe("Pre-production");
+    expect(formatEnvironment("prod", config)).toBe("Production");
+    expect(formatApp("api", config)).toBe("API");
+  });
+});
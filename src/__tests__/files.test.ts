@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import ExcelJS from "exceljs";
+
+vi.mock("@actions/core", () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+  setFailed: vi.fn()
+}));
+
+import { DEFAULT_SHEET_LAYOUT } from "../columns";
+import { DEFAULT_CONFIG, parseConfig } from "../config";
+import { cellText, csvTracker, formatCsv, parseCsv, xlsxTracker } from "../files";
+import { DEFAULT_ENVIRONMENT_ORDER, syncToSheets } from "../sheets";
+import { DEFAULT_TICKET_PATTERN } from "../tickets";
+import { parseTrackerKind } from "../tracker";
+import { PRInfo, SyncOptions } from "../types";
+
+const template = [
+  ["Last version", "", "", "", "", "", "", "New version"],
+  ["", "", "", "", "", "", "", ""],
+  ["Issue", "Status", "Assignee", "Environment", "App"]
+];
+
+const next = [
+  ["Last version", "", "", "", "", "", "", "New version"],
+  ["#1.0.0", "", "", "", "", "", "", "#1.1.0"],
+  ["Issue", "Status", "Assignee", "Environment", "App"],
+  ["ADV-1", "Done", "bob", "Stage", "Web"]
+];
+
+const pr = (issue: string): PRInfo => ({
+  issue,
+  title: "",
+  author: "alice",
+  environment: "production",
+  app: "web",
+  url: ""
+});
+
+const options: SyncOptions = {
+  sheetName: "Next",
+  version: "#1.2.0",
+  jiraBaseUrl: "https://jira/browse",
+  ticketPattern: DEFAULT_TICKET_PATTERN,
+  layout: DEFAULT_SHEET_LAYOUT,
+  rowPerApp: false,
+  environmentOrder: DEFAULT_ENVIRONMENT_ORDER,
+  allowDowngrade: false,
+  config: DEFAULT_CONFIG,
+  lock: { owner: "test", timeoutSeconds: 1, ttlSeconds: 1 },
+  audit: { tabName: "Deployment log", baseTag: "", headTag: "v1.2.0", actor: "alice", runUrl: "" },
+  archive: {
+    nameTemplate: "{date}",
+    timeZone: "",
+    app: "web",
+    retention: { keep: null, action: "hide", destination: "" }
+  },
+  dryRun: false
+};
+
+let dir = "";
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "tracker-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseTrackerKind", () => {
+  it("defaults to Google Sheets and rejects unknown trackers", () => {
+    expect(parseTrackerKind("")).toBe("google-sheets");
+    expect(parseTrackerKind("XLSX")).toBe("xlsx");
+    expect(() => parseTrackerKind("sharepoint")).toThrow('Invalid tracker: "sharepoint"');
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, quotes and line breaks", () => {
+    expect(parseCsv('a,"b, ""c""",d\r\n"line\none",\nlast')).toEqual([
+      ["a", 'b, "c"', "d"],
+      ["line\none", ""],
+      ["last"]
+    ]);
+  });
+
+  it("round-trips formatted rows", () => {
+    const rows = [['=HYPERLINK("https://jira/browse/ADV-1", "ADV-1")', "Web, Admin"], [""]];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
+
+describe("cellText", () => {
+  it("reads what the sheet shows", () => {
+    expect(cellText(null)).toBe("");
+    expect(cellText(42)).toBe("42");
+    expect(cellText({ formula: "1+1", result: 2, date1904: false })).toBe("2");
+    expect(cellText({ formula: 'HYPERLINK("u", "ADV-1")', date1904: false })).toBe(
+      '=HYPERLINK("u", "ADV-1")'
+    );
+    expect(cellText({ text: "ADV-2", hyperlink: "https://jira/browse/ADV-2" })).toBe("ADV-2");
+    expect(cellText({ richText: [{ text: "AD" }, { text: "V-3" }] })).toBe("ADV-3");
+  });
+});
+
+describe("csvTracker", () => {
+  const write = (tab: string, rows: string[][]) =>
+    fs.writeFileSync(path.join(dir, `${tab}.csv`), formatCsv(rows));
+  const read = (tab: string) => parseCsv(fs.readFileSync(path.join(dir, `${tab}.csv`), "utf8"));
+
+  it("syncs a production deploy offline: updates, archives and logs", async () => {
+    write("Next", next);
+    write("Template", template);
+
+    const result = await syncToSheets(csvTracker(dir), [pr("ADV-1"), pr("ADV-2")], options);
+
+    expect(result?.plan.added.map((t) => t.issue)).toEqual(["ADV-2"]);
+    expect(result?.plan.updated.map((t) => t.issue)).toEqual(["ADV-1"]);
+
+    const archive = read(result!.archiveName!);
+    expect(archive[1][7]).toBe("#1.2.0");
+    expect(archive[3].slice(0, 5)).toEqual(["ADV-1", "Done", "bob", "Production", "Web"]);
+    expect(archive[4][0]).toBe('=HYPERLINK("https://jira/browse/ADV-2", "ADV-2")');
+
+    expect(read("Next")[1][0]).toBe("#1.2.0");
+    expect(read("Next").slice(2)).toEqual(template.slice(2));
+    expect(read("Deployment log")).toHaveLength(3);
+  });
+
+  it("leaves the files alone in a dry run", async () => {
+    write("Next", next);
+    write("Template", template);
+
+    const result = await syncToSheets(csvTracker(dir), [pr("ADV-2")], {
+      ...options,
+      dryRun: true
+    });
+
+    expect(result?.tabs.map((t) => t.action)).toEqual(["rename", "copy", "move"]);
+    expect(read("Next")).toEqual(next);
+    expect(fs.readdirSync(dir).sort()).toEqual(["Next.csv", "Template.csv"]);
+  });
+
+  it("names archives by the template and moves archives past the retention count", async () => {
+    write("Next", next);
+    write("Template", template);
+    write("2026-01-02", template);
+    write("2026-01-15", template);
+    const archiveDir = path.join(dir, "old");
+
+    const result = await syncToSheets(csvTracker(dir), [pr("ADV-2")], {
+      ...options,
+      archive: {
+        nameTemplate: "{date} {app} {version}",
+        timeZone: "Europe/Oslo",
+        app: "web",
+        retention: { keep: 2, action: "move", destination: archiveDir }
+      }
+    });
+
+    expect(result?.archiveName).toMatch(/^\d{4}-\d{2}-\d{2} Web #1\.2\.0$/);
+    expect(result?.tabs.slice(3)).toEqual([{ action: "move", from: "2026-01-02", to: archiveDir }]);
+    expect(fs.readdirSync(archiveDir)).toEqual(["2026-01-02.csv"]);
+    expect(fs.readdirSync(dir).sort()).toEqual(
+      [
+        `${result!.archiveName}.csv`,
+        "2026-01-15.csv",
+        "Deployment log.csv",
+        "Next.csv",
+        "Template.csv",
+        "old"
+      ].sort()
+    );
+  });
+
+  it("archives on deploys to the environment the config marks, not production", async () => {
+    write("Next", next);
+    write("Template", template);
+    const config = parseConfig(
+      "apps: [{name: web}]\nenvironments: [{name: stage}, {name: live, archive: true}, {name: production}]",
+      "c.yml"
+    );
+    const sync = (environment: string) =>
+      syncToSheets(csvTracker(dir), [{ ...pr("ADV-2"), environment }], {
+        ...options,
+        config,
+        environmentOrder: ["stage", "live", "production"]
+      });
+
+    expect((await sync("production"))?.archiveName).toBeNull();
+    expect((await sync("live"))?.archiveName).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it("restores Next from the Template copy an interrupted archive left", async () => {
+    write("2026-02-16", next);
+    write("Template", template);
+    write("Copy of Template", template);
+
+    const result = await syncToSheets(csvTracker(dir), [pr("ADV-2")], options);
+
+    expect(result?.tabs.slice(0, 2)).toEqual([
+      { action: "rename", from: "Copy of Template", to: "Next" },
+      { action: "move", from: "Next", to: "first position" }
+    ]);
+    expect(fs.existsSync(path.join(dir, "Copy of Template.csv"))).toBe(false);
+    expect(read("2026-02-16")).toEqual(next);
+  });
+
+  it("fails a production deploy without a Template before writing to Next", async () => {
+    write("Next", next);
+
+    expect(await syncToSheets(csvTracker(dir), [pr("ADV-2")], options)).toBeNull();
+    expect(read("Next")).toEqual(next);
+    expect(fs.readdirSync(dir)).toEqual(["Next.csv"]);
+  });
+
+  it("does not recreate a Next that was removed by hand", async () => {
+    write("2026-02-16", next);
+    write("Template", template);
+
+    expect(await syncToSheets(csvTracker(dir), [pr("ADV-2")], options)).toBeNull();
+    expect(fs.readdirSync(dir).sort()).toEqual(["2026-02-16.csv", "Template.csv"]);
+  });
+
+  it("fails when the directory is missing", async () => {
+    await expect(csvTracker(path.join(dir, "missing")).listTabs()).rejects.toThrow(
+      "Tracker directory not found"
+    );
+  });
+});
+
+describe("xlsxTracker", () => {
+  async function writeWorkbook(file: string): Promise<void> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet("Next").addRows(next);
+    const sheet = workbook.addWorksheet("Template");
+    sheet.addRows(template);
+    sheet.getCell("D4").dataValidation = {
+      type: "list",
+      allowBlank: true,
+      formulae: ['"Stage,Production"']
+    };
+    await workbook.xlsx.writeFile(file);
+  }
+
+  it("archives into a new first tab copied from the Template, keeping dropdowns", async () => {
+    const file = path.join(dir, "releases.xlsx");
+    await writeWorkbook(file);
+
+    const tracker = xlsxTracker(file);
+    await tracker.writeCells("Next", [
+      { row: 5, column: 0, value: '=HYPERLINK("https://jira/browse/ADV-2", "ADV-2")' }
+    ]);
+    await tracker.archiveCycle("Next", "2026-02-16", { cell: "A2", value: "#1.2.0" });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(file);
+    expect(workbook.worksheets.map((w) => w.name)).toEqual(["Next", "2026-02-16", "Template"]);
+    expect(workbook.getWorksheet("Next")!.getCell("A2").value).toBe("#1.2.0");
+    expect(workbook.getWorksheet("Next")!.getCell("D4").dataValidation?.type).toBe("list");
+
+    const archived = await xlsxTracker(file).readRows("2026-02-16");
+    expect(archived).toHaveLength(5);
+    expect(archived[4][0]).toBe('=HYPERLINK("https://jira/browse/ADV-2", "ADV-2")');
+  });
+
+  it("hides old archives or moves them into another workbook", async () => {
+    const file = path.join(dir, "releases.xlsx");
+    await writeWorkbook(file);
+    const tracker = xlsxTracker(file);
+    await tracker.archiveCycle("Next", "2026-01-15", null);
+    await tracker.archiveCycle("Next", "2026-02-16", null);
+
+    await tracker.retireTabs(["2026-01-15"], { keep: 1, action: "hide", destination: "" });
+    expect((await xlsxTracker(file).listTabs()).filter((t) => t.hidden)).toEqual([
+      expect.objectContaining({ title: "2026-01-15" })
+    ]);
+
+    const archiveFile = path.join(dir, "archive.xlsx");
+    const retention = { keep: 1, action: "move" as const, destination: archiveFile };
+    await tracker.retireTabs(["2026-01-15"], retention);
+    expect((await xlsxTracker(file).listTabs()).map((t) => t.title)).toEqual([
+      "Next",
+      "2026-02-16",
+      "Template"
+    ]);
+    const moved = xlsxTracker(archiveFile);
+    expect((await moved.listTabs()).map((t) => t.title)).toEqual(["2026-01-15"]);
+    expect((await moved.readRows("2026-01-15"))[2][0]).toBe("Issue");
+  });
+
+  it("appends audit rows under a new header row", async () => {
+    const file = path.join(dir, "releases.xlsx");
+    await writeWorkbook(file);
+
+    const tracker = xlsxTracker(file);
+    await tracker.appendAuditRows("Deployment log", [["2026-02-16T10:00:00.000Z", "Stage"]]);
+    await tracker.appendAuditRows("Deployment log", [["2026-02-17T10:00:00.000Z", "Stage"]]);
+
+    const rows = await xlsxTracker(file).readRows("Deployment log");
+    expect(rows.map((r) => r[0])).toEqual([
+      "Timestamp",
+      "2026-02-16T10:00:00.000Z",
+      "2026-02-17T10:00:00.000Z"
+    ]);
+  });
+});
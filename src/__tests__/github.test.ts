@@ -14,7 +14,18 @@ vi.mock("@actions/github", () => ({
   context: { repo: { owner: "test", repo: "test" }, payload: {} }
 }));
 
-import { extractAllJiraTickets, fromExplicitTickets } from "../github";
+import * as github from "@actions/github";
+import {
+  extractAllJiraTickets,
+  extractPRTickets,
+  findMergedPRs,
+  findPreviousTag,
+  fromExplicitTickets,
+  getPRInfo,
+  listComparisonCommits
+} from "../github";
+import { DEFAULT_RETRY_OPTIONS } from "../retry";
+import { buildTicketPattern, DEFAULT_TICKET_PATTERN } from "../tickets";
 
 describe("extractAllJiraTickets", () => {
   it("extracts a single ticket", () => {
@@ -54,6 +65,15 @@ describe("extractAllJiraTickets", () => {
   it("extracts from squash merge message", () => {
     expect(extractAllJiraTickets("ADV-456 Add new feature (#78)")).toEqual(["ADV-456"]);
   });
+
+  it("ignores other projects by default", () => {
+    expect(extractAllJiraTickets("WEB-1 and ADV-2")).toEqual(["ADV-2"]);
+  });
+
+  it("extracts tickets from multiple configured projects", () => {
+    const pattern = buildTicketPattern(["ADV", "WEB"]);
+    expect(extractAllJiraTickets("WEB-1 and ADV-2", pattern)).toEqual(["WEB-1", "ADV-2"]);
+  });
 });
 
 describe("fromExplicitTickets", () => {
@@ -84,6 +104,17 @@ describe("fromExplicitTickets", () => {
     expect(result[0].environment).toBe("stage");
   });
 
+  it("skips entries that do not match the ticket pattern", () => {
+    const result = fromExplicitTickets("ADV-1,WEB-2,hello", "cm", "internal");
+    expect(result.map((r) => r.issue)).toEqual(["ADV-1"]);
+  });
+
+  it("accepts tickets from configured projects", () => {
+    const pattern = buildTicketPattern(["ADV", "WEB"]);
+    const result = fromExplicitTickets("ADV-1,web-2", "cm", "internal", pattern);
+    expect(result.map((r) => r.issue)).toEqual(["ADV-1", "WEB-2"]);
+  });
+
   it("returns empty fields for title, author, url", () => {
     const result = fromExplicitTickets("ADV-1", "cm", "internal");
     expect(result[0].title).toBe("");
@@ -91,3 +122,319 @@ describe("fromExplicitTickets", () => {
     expect(result[0].url).toBe("");
   });
 });
+
+describe("listComparisonCommits", () => {
+  const commit = (n: number) => ({ sha: `sha${n}`, commit: { message: `ADV-${n}` } });
+  const range = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, i) => commit(from + i));
+
+  // Fake Octokit whose compare endpoint pages through `pages` and reports `total` commits
+  type FakeCommit = ReturnType<typeof commit>;
+  function fakeOctokit(pages: FakeCommit[][], total: number, history: FakeCommit[] = []) {
+    const compareCommits = vi.fn(async ({ page }: { page: number }) => ({
+      data: {
+        total_commits: total,
+        merge_base_commit: { sha: "base" },
+        commits: pages[page - 1] ?? []
+      }
+    }));
+    const listCommits = vi.fn(async ({ page }: { page: number }) => ({
+      data: history.slice((page - 1) * 100, page * 100)
+    }));
+    const getCommit = vi.fn(async () => ({ data: { sha: "head" } }));
+    const octokit = { rest: { repos: { compareCommits, listCommits, getCommit } } };
+    return {
+      octokit: octokit as unknown as Parameters<typeof listComparisonCommits>[0],
+      compareCommits,
+      listCommits
+    };
+  }
+
+  it("returns all commits from a single page", async () => {
+    const { octokit, compareCommits } = fakeOctokit([range(1, 5)], 5);
+    const commits = await listComparisonCommits(octokit, "o", "r", "v1", "v2");
+    expect(commits).toHaveLength(5);
+    expect(compareCommits).toHaveBeenCalledTimes(1);
+  });
+
+  it("pages through comparisons over 250 commits", async () => {
+    const { octokit, compareCommits } = fakeOctokit(
+      [range(1, 100), range(101, 200), range(201, 300), range(301, 320)],
+      320
+    );
+    const commits = await listComparisonCommits(octokit, "o", "r", "v1", "v2");
+    expect(commits).toHaveLength(320);
+    expect(compareCommits).toHaveBeenCalledTimes(4);
+  });
+
+  it("falls back to the head's history down to the merge base", async () => {
+    const history = [...range(1, 150), { sha: "base", commit: { message: "base" } }];
+    const { octokit, listCommits } = fakeOctokit([range(1, 40)], 150, history);
+    const commits = await listComparisonCommits(octokit, "o", "r", "v1", "v2");
+    expect(commits).toHaveLength(150);
+    expect(listCommits).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws when not every commit can be listed", async () => {
+    const { octokit } = fakeOctokit([range(1, 40)], 150, range(1, 60));
+    await expect(listComparisonCommits(octokit, "o", "r", "v1", "v2")).rejects.toThrow(
+      "Could only list 60 of 150 commits"
+    );
+  });
+});
+
+describe("findPreviousTag", () => {
+  // Fake Octokit with the given tags; `ancestors` are tags the head builds on
+  function fakeOctokit(tags: string[], ancestors: string[]) {
+    const paginate = vi.fn(async () =>
+      tags.map((name) => ({ ref: `refs/tags/${name}`, object: { sha: name } }))
+    );
+    const compareCommits = vi.fn(async ({ base }: { base: string }) => ({
+      data: { status: ancestors.includes(base) ? "ahead" : "diverged" }
+    }));
+    const octokit = {
+      paginate,
+      rest: { git: { listMatchingRefs: vi.fn() }, repos: { compareCommits } }
+    };
+    return {
+      octokit: octokit as unknown as Parameters<typeof findPreviousTag>[0],
+      compareCommits
+    };
+  }
+
+  it("picks the newest older tag by version, not by string order", async () => {
+    const tags = ["v1.9.0-prod", "v1.10.0-prod", "v1.11.0-prod", "v1.10.0-stage"];
+    const { octokit } = fakeOctokit(tags, tags);
+    expect(await findPreviousTag(octokit, "o", "r", "prod", "v1.11.0-prod", "natural")).toBe(
+      "v1.10.0-prod"
+    );
+  });
+
+  it("ignores tags newer than the head tag", async () => {
+    const tags = ["v1.9.0-prod", "v2.0.0-prod"];
+    const { octokit } = fakeOctokit(tags, tags);
+    expect(await findPreviousTag(octokit, "o", "r", "prod", "v1.10.0-prod", "natural")).toBe(
+      "v1.9.0-prod"
+    );
+  });
+
+  it("skips tags that are not ancestors of the head tag", async () => {
+    const { octokit, compareCommits } = fakeOctokit(
+      ["v1.8.0-prod", "v1.9.0-prod", "v1.9.1-prod"],
+      ["v1.8.0-prod"]
+    );
+    expect(await findPreviousTag(octokit, "o", "r", "prod", "v1.10.0-prod", "natural")).toBe(
+      "v1.8.0-prod"
+    );
+    expect(compareCommits).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns null when no tag matches", async () => {
+    const { octokit } = fakeOctokit(["v1.0.0-stage"], []);
+    expect(await findPreviousTag(octokit, "o", "r", "prod", "v1.1.0-prod", "natural")).toBeNull();
+  });
+});
+
+describe("extractPRTickets", () => {
+  const pr = {
+    number: 7,
+    title: "ADV-1 Add widget",
+    body: "Also fixes ADV-2",
+    head: { ref: "feature/ADV-1-widget" }
+  };
+
+  function fakeOctokit(messages: string[]) {
+    const listCommits = vi.fn();
+    const paginate = vi.fn(async () => messages.map((message) => ({ commit: { message } })));
+    const octokit = { paginate, rest: { pulls: { listCommits } } };
+    return { octokit: octokit as unknown as Parameters<typeof extractPRTickets>[0], paginate };
+  }
+
+  it("only reads the title by default", async () => {
+    const { octokit, paginate } = fakeOctokit(["ADV-3 wip"]);
+    const tickets = await extractPRTickets(
+      octokit,
+      "o",
+      "r",
+      pr,
+      ["title"],
+      DEFAULT_TICKET_PATTERN
+    );
+    expect(Object.fromEntries(tickets)).toEqual({ "ADV-1": ["title"] });
+    expect(paginate).not.toHaveBeenCalled();
+  });
+
+  it("deduplicates tickets across sources and records where they were found", async () => {
+    const { octokit } = fakeOctokit(["ADV-3 wip", "adv-1 tests"]);
+    const tickets = await extractPRTickets(
+      octokit,
+      "o",
+      "r",
+      pr,
+      ["title", "body", "branch", "commits"],
+      DEFAULT_TICKET_PATTERN
+    );
+    expect(Object.fromEntries(tickets)).toEqual({
+      "ADV-1": ["title", "branch", "commits"],
+      "ADV-2": ["body"],
+      "ADV-3": ["commits"]
+    });
+  });
+
+  it("handles an empty body and keeps other sources when commits cannot be listed", async () => {
+    const { octokit, paginate } = fakeOctokit([]);
+    paginate.mockRejectedValueOnce(new Error("HTTP 404"));
+    const tickets = await extractPRTickets(
+      octokit,
+      "o",
+      "r",
+      { ...pr, title: "Add widget", body: null },
+      ["title", "body", "branch", "commits"],
+      DEFAULT_TICKET_PATTERN
+    );
+    expect(Object.fromEntries(tickets)).toEqual({ "ADV-1": ["branch"] });
+  });
+});
+
+describe("findMergedPRs", () => {
+  function fakeOctokit(
+    prsBySha: Record<string, Array<{ number: number; merged_at: string | null }>>
+  ) {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const listPullRequestsAssociatedWithCommit = vi.fn(
+      async ({ commit_sha }: { commit_sha: string }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        if (!(commit_sha in prsBySha)) throw new Error("HTTP 422");
+        return { data: prsBySha[commit_sha] };
+      }
+    );
+    const octokit = { rest: { repos: { listPullRequestsAssociatedWithCommit } } };
+    return {
+      octokit: octokit as unknown as Parameters<typeof findMergedPRs>[0],
+      listPullRequestsAssociatedWithCommit,
+      maxInFlight: () => maxInFlight
+    };
+  }
+
+  it("maps commits to merged PRs once each, in commit order", async () => {
+    const merged = "2025-06-15T10:00:00Z";
+    const { octokit } = fakeOctokit({
+      a: [{ number: 12, merged_at: merged }],
+      b: [{ number: 12, merged_at: merged }],
+      c: [
+        { number: 5, merged_at: merged },
+        { number: 6, merged_at: null }
+      ],
+      d: []
+    });
+    const prs = await findMergedPRs(octokit, "o", "r", ["a", "b", "c", "d"]);
+    expect(prs.map((pr) => pr.number)).toEqual([12, 5]);
+  });
+
+  it("skips commits whose lookup fails", async () => {
+    const { octokit } = fakeOctokit({ a: [{ number: 1, merged_at: "2025-06-15T10:00:00Z" }] });
+    const prs = await findMergedPRs(octokit, "o", "r", ["a", "unknown"]);
+    expect(prs.map((pr) => pr.number)).toEqual([1]);
+  });
+
+  it("limits concurrent lookups and caps the number of commits looked up", async () => {
+    const shas = Array.from({ length: 320 }, (_, i) => `sha${i}`);
+    const { octokit, listPullRequestsAssociatedWithCommit, maxInFlight } = fakeOctokit(
+      Object.fromEntries(shas.map((sha) => [sha, []]))
+    );
+    await findMergedPRs(octokit, "o", "r", shas);
+    expect(listPullRequestsAssociatedWithCommit).toHaveBeenCalledTimes(300);
+    expect(maxInFlight()).toBe(5);
+  });
+});
+
+describe("getPRInfo with reverted changes", () => {
+  const commit = (sha: string, message: string, parent: string) => ({
+    sha,
+    parents: [{ sha: parent }],
+    commit: { message },
+    html_url: `https://github.com/o/r/commit/${sha}`
+  });
+  const commits = [
+    commit("1111111", "ADV-1 Add widget (#1)", "base"),
+    commit("2222222", "ADV-2 Add report (#2)", "1111111"),
+    commit(
+      "3333333",
+      'Revert "ADV-2 Add report (#2)" (#3)\n\nThis reverts commit 2222222.',
+      "2222222"
+    ),
+    commit("4444444", 'Revert "ADV-9 Old feature"\n\nThis reverts commit 9999999.', "3333333")
+  ];
+  const pr = (number: number, title: string) => ({
+    number,
+    title,
+    body: "",
+    head: { ref: `branch-${number}` },
+    user: { login: "alice" },
+    html_url: `https://github.com/o/r/pull/${number}`,
+    merged_at: "2025-06-15T10:00:00Z"
+  });
+  const prsBySha: Record<string, ReturnType<typeof pr>[]> = {
+    "1111111": [pr(1, "ADV-1 Add widget")],
+    "2222222": [pr(2, "ADV-2 Add report")],
+    "3333333": [pr(3, 'Revert "ADV-2 Add report"')],
+    "4444444": []
+  };
+
+  async function run(revertedTickets: "mark" | "skip") {
+    const octokit = {
+      hook: { wrap: vi.fn() },
+      rest: {
+        repos: {
+          compareCommits: vi.fn(async () => ({
+            data: { total_commits: commits.length, merge_base_commit: { sha: "base" }, commits }
+          })),
+          listPullRequestsAssociatedWithCommit: vi.fn(
+            async ({ commit_sha }: { commit_sha: string }) => ({
+              data: prsBySha[commit_sha]
+            })
+          )
+        }
+      }
+    };
+    vi.mocked(github.getOctokit).mockReturnValue(
+      octokit as unknown as ReturnType<typeof github.getOctokit>
+    );
+    const { prInfos } = await getPRInfo("token", {
+      app: "web",
+      environment: "production",
+      jiraTickets: "",
+      baseTag: "v1",
+      headTag: "v2",
+      tagSuffix: "",
+      tagScheme: "natural",
+      ticketPattern: buildTicketPattern(["ADV"]),
+      ticketSources: ["title"],
+      revertedTickets,
+      owner: "o",
+      repo: "r",
+      prNumber: null,
+      retry: DEFAULT_RETRY_OPTIONS
+    });
+    return prInfos;
+  }
+
+  it("marks tickets whose changes were all reverted", async () => {
+    const prInfos = await run("mark");
+    expect(prInfos.map((p) => [p.issue, p.reverted ?? false])).toEqual([
+      ["ADV-1", false],
+      ["ADV-2", true],
+      ["ADV-9", true]
+    ]);
+    expect(prInfos[0].url).toBe("https://github.com/o/r/pull/1");
+  });
+
+  it("leaves reverted tickets out when asked to skip them", async () => {
+    const prInfos = await run("skip");
+    expect(prInfos.map((p) => p.issue)).toEqual(["ADV-1"]);
+  });
+});
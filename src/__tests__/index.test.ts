@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { normalizeEnvironment } from "../index";
+import { parseConfig } from "../config";
+import {
+  normalizeEnvironment,
+  parseEnvironmentList,
+  parseEnvironmentMapping,
+  parseEnvironmentOrder,
+  parseSeconds
+} from "../index";
 
 describe("normalizeEnvironment", () => {
   it("maps 'internal' → 'internal'", () => {
@@ -39,4 +46,90 @@ describe("normalizeEnvironment", () => {
     expect(normalizeEnvironment("")).toBe("");
     expect(normalizeEnvironment("qa")).toBe("");
   });
+
+  it("uses the environments and aliases from a config", () => {
+    const config = parseConfig(
+      "apps: [{name: web}]\nenvironments: [{name: stage}, {name: production, aliases: [live]}]",
+      "c.yml"
+    );
+    expect(normalizeEnvironment("Live", config)).toBe("production");
+    expect(normalizeEnvironment("internal", config)).toBe("");
+  });
+});
+
+describe("parseEnvironmentList", () => {
+  it("normalizes aliases and allows an empty list", () => {
+    expect(parseEnvironmentList("prod, Stage", "jira-comment-environments")).toEqual([
+      "production",
+      "stage"
+    ]);
+    expect(parseEnvironmentList(" ", "jira-comment-environments")).toEqual([]);
+  });
+
+  it("throws for unknown environments", () => {
+    expect(() => parseEnvironmentList("stage, prd", "jira-comment-environments")).toThrow(
+      'Invalid environment in jira-comment-environments: "prd"'
+    );
+  });
+});
+
+describe("parseEnvironmentOrder", () => {
+  it("defaults to internal, stage, production", () => {
+    expect(parseEnvironmentOrder("")).toEqual(["internal", "stage", "production"]);
+  });
+
+  it("defaults to the environment order of a config", () => {
+    const config = parseConfig(
+      "apps: [{name: web}]\nenvironments: [{name: internal}, {name: preprod}, {name: production}]",
+      "c.yml"
+    );
+    expect(parseEnvironmentOrder("", config)).toEqual(["internal", "preprod", "production"]);
+  });
+
+  it("normalizes aliases", () => {
+    expect(parseEnvironmentOrder("int, prod, Stage")).toEqual(["internal", "production", "stage"]);
+  });
+
+  it("throws for unknown environments", () => {
+    expect(() => parseEnvironmentOrder("int, qa")).toThrow(
+      'Invalid environment in environment-order: "qa"'
+    );
+  });
+
+  it("throws for duplicates", () => {
+    expect(() => parseEnvironmentOrder("int, internal")).toThrow("Duplicate environment");
+  });
+});
+
+describe("parseEnvironmentMapping", () => {
+  it("maps normalized environments to values", () => {
+    expect(
+      parseEnvironmentMapping("stage=Deployed to Stage, prod = Released", "jira-transitions")
+    ).toEqual({ stage: "Deployed to Stage", production: "Released" });
+  });
+
+  it("returns an empty mapping for empty input", () => {
+    expect(parseEnvironmentMapping("", "jira-transitions")).toEqual({});
+  });
+
+  it("throws for unknown environments or missing values", () => {
+    expect(() => parseEnvironmentMapping("qa=Tested", "jira-transitions")).toThrow(
+      'Invalid jira-transitions entry: "qa=Tested"'
+    );
+    expect(() => parseEnvironmentMapping("stage", "jira-transitions")).toThrow(
+      "Expected format: environment=value"
+    );
+  });
+});
+
+describe("parseSeconds", () => {
+  it("parses whole seconds", () => {
+    expect(parseSeconds(" 300 ", "lock-timeout")).toBe(300);
+  });
+
+  it("throws for zero, negative or non-numeric values", () => {
+    for (const input of ["0", "-5", "1.5", "soon"]) {
+      expect(() => parseSeconds(input, "lock-timeout")).toThrow(`Invalid lock-timeout: "${input}"`);
+    }
+  });
 });
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import * as http from "http";
+import { AddressInfo } from "net";
+
+vi.mock("@actions/core", () => ({
+  info: vi.fn(),
+  warning: vi.fn()
+}));
+
+import { DEFAULT_CONFIG } from "../config";
+import {
+  buildDeploymentComment,
+  enrichWithJira,
+  fetchJiraIssues,
+  jiraApiUrlFromBrowseUrl,
+  updateJiraIssues
+} from "../jira";
+import { PRInfo } from "../types";
+
+const KNOWN_ISSUES: Record<string, object> = {
+  "ADV-1": {
+    summary: "Fix login",
+    status: { name: "In Review" },
+    assignee: { displayName: "Alice" },
+    issuetype: { name: "Bug" }
+  },
+  "ADV-2": {
+    summary: "Add export",
+    status: { name: "Done" },
+    assignee: null,
+    issuetype: { name: "Story" }
+  }
+};
+
+// Local stand-in for the Jira REST API
+interface RecordedBody {
+  jql?: string;
+  body?: string;
+  transition?: { id: string };
+}
+const requests: Array<{ method: string; url: string; auth: string; body: RecordedBody | null }> =
+  [];
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const parsed = body ? JSON.parse(body) : null;
+    const url = req.url ?? "";
+    requests.push({
+      method: req.method ?? "",
+      url,
+      auth: req.headers.authorization ?? "",
+      body: parsed
+    });
+
+    const reply = (status: number, data?: object) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(data ? JSON.stringify(data) : "");
+    };
+
+    if (req.headers.authorization === "Bearer bad") {
+      return reply(401, {});
+    }
+
+    if (url === "/rest/api/2/search") {
+      const keys = /key in \((.*)\)/.exec(parsed.jql)![1].split(",");
+      const issues = keys
+        .filter((key) => KNOWN_ISSUES[key])
+        .map((key) => ({ key, fields: KNOWN_ISSUES[key] }));
+      return reply(200, { issues });
+    }
+
+    const match = /^\/rest\/api\/2\/issue\/([^/]+)\/(transitions|comment)$/.exec(url);
+    if (!match || !KNOWN_ISSUES[match[1]]) {
+      return reply(404, { errorMessages: ["Issue does not exist"] });
+    }
+    if (match[2] === "transitions" && req.method === "GET") {
+      return reply(200, {
+        transitions: [
+          { id: "11", name: "Deploy to Stage", to: { name: "Deployed to Stage" } },
+          { id: "21", name: "Release", to: { name: "Released" } }
+        ]
+      });
+    }
+    if (match[2] === "transitions") return reply(204);
+    return reply(201, { id: "1" });
+  });
+});
+
+let apiUrl = "";
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const pr = (issue: string): PRInfo => ({
+  issue,
+  title: "",
+  author: "",
+  environment: "stage",
+  app: "web",
+  url: ""
+});
+
+describe("jiraApiUrlFromBrowseUrl", () => {
+  it("strips the /browse suffix", () => {
+    expect(jiraApiUrlFromBrowseUrl("https://jira.visma.com/browse")).toBe("https://jira.visma.com");
+    expect(jiraApiUrlFromBrowseUrl("https://jira.visma.com/browse/")).toBe(
+      "https://jira.visma.com"
+    );
+  });
+
+  it("keeps URLs without /browse", () => {
+    expect(jiraApiUrlFromBrowseUrl("https://example.atlassian.net")).toBe(
+      "https://example.atlassian.net"
+    );
+  });
+});
+
+describe("fetchJiraIssues", () => {
+  it("fetches issue details with a single JQL query", async () => {
+    requests.length = 0;
+    const issues = await fetchJiraIssues({ apiUrl, token: "t", user: "" }, ["ADV-1", "ADV-2"]);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("/rest/api/2/search");
+    expect(requests[0].auth).toBe("Bearer t");
+    expect(requests[0].body?.jql).toBe("key in (ADV-1,ADV-2)");
+    expect(issues.get("ADV-1")).toEqual({
+      key: "ADV-1",
+      summary: "Fix login",
+      status: "In Review",
+      assignee: "Alice",
+      issueType: "Bug"
+    });
+    expect(issues.get("ADV-2")?.assignee).toBe("");
+  });
+
+  it("uses basic auth when a user is given", async () => {
+    requests.length = 0;
+    await fetchJiraIssues({ apiUrl, token: "t", user: "me@example.com" }, ["ADV-1"]);
+    expect(requests[0].auth).toBe(`Basic ${Buffer.from("me@example.com:t").toString("base64")}`);
+  });
+
+  it("splits large key lists into batches", async () => {
+    requests.length = 0;
+    const keys = Array.from({ length: 120 }, (_, i) => `ADV-${i + 1}`);
+    await fetchJiraIssues({ apiUrl, token: "t", user: "" }, keys);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("throws on HTTP errors", async () => {
+    await expect(fetchJiraIssues({ apiUrl, token: "bad", user: "" }, ["ADV-1"])).rejects.toThrow(
+      "HTTP 401"
+    );
+  });
+});
+
+describe("enrichWithJira", () => {
+  it("attaches Jira details to found tickets", async () => {
+    const result = await enrichWithJira([pr("ADV-1"), pr("ADV-9")], {
+      apiUrl,
+      token: "t",
+      user: ""
+    });
+    expect(result[0].jira?.summary).toBe("Fix login");
+    expect(result[1].jira).toBeUndefined();
+  });
+
+  it("returns entries unchanged when Jira is unreachable", async () => {
+    const entries = [pr("ADV-1")];
+    const result = await enrichWithJira(entries, {
+      apiUrl: "http://127.0.0.1:1",
+      token: "t",
+      user: ""
+    });
+    expect(result).toEqual(entries);
+  });
+});
+
+describe("buildDeploymentComment", () => {
+  it("includes environment, app, version and PR link", () => {
+    const entry = { ...pr("ADV-1"), url: "https://github.com/o/r/pull/1" };
+    expect(buildDeploymentComment(entry, "#20250615.1.0")).toBe(
+      "Deployed to Stage (Web)\nVersion: #20250615.1.0\nPR: https://github.com/o/r/pull/1"
+    );
+  });
+
+  it("omits missing version and PR link", () => {
+    expect(buildDeploymentComment(pr("ADV-1"), "")).toBe("Deployed to Stage (Web)");
+  });
+});
+
+describe("updateJiraIssues", () => {
+  const client = { apiUrl: "", token: "t", user: "" };
+
+  it("applies the transition matching a transition or status name", async () => {
+    requests.length = 0;
+    const results = await updateJiraIssues(
+      [pr("ADV-1"), pr("ADV-1")],
+      { ...client, apiUrl },
+      { transition: "Deployed to Stage", comment: false, version: "", config: DEFAULT_CONFIG }
+    );
+    expect(results).toEqual([
+      { issue: "ADV-1", action: "transition", ok: true, message: 'moved via "Deploy to Stage"' }
+    ]);
+    expect(requests[requests.length - 1]).toMatchObject({
+      method: "POST",
+      body: { transition: { id: "11" } }
+    });
+  });
+
+  it("adds a deployment comment", async () => {
+    requests.length = 0;
+    const results = await updateJiraIssues(
+      [pr("ADV-2")],
+      { ...client, apiUrl },
+      { transition: "", comment: true, version: "#1", config: DEFAULT_CONFIG }
+    );
+    expect(results[0]).toMatchObject({ action: "comment", ok: true });
+    expect(requests[0].url).toBe("/rest/api/2/issue/ADV-2/comment");
+    expect(requests[0].body?.body).toContain("Version: #1");
+  });
+
+  it("reports failures per ticket without throwing", async () => {
+    const results = await updateJiraIssues(
+      [pr("ADV-1"), pr("ADV-404")],
+      { ...client, apiUrl },
+      { transition: "Closed", comment: true, version: "", config: DEFAULT_CONFIG }
+    );
+    expect(results.map((r) => [r.issue, r.action, r.ok])).toEqual([
+      ["ADV-1", "transition", false],
+      ["ADV-1", "comment", true],
+      ["ADV-404", "transition", false],
+      ["ADV-404", "comment", false]
+    ]);
+    expect(results[0].message).toContain('transition "Closed" not available');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@actions/core", () => ({
+  info: vi.fn(),
+  warning: vi.fn()
+}));
+
+import { acquireLock, LOCK_METADATA_KEY, releaseLock, renewLock } from "../lock";
+
+interface StoredMetadata {
+  metadataId: number;
+  metadataKey: string;
+  metadataValue: string;
+}
+
+// In-memory stand-in for the developer metadata endpoints used by the lock. Like the API, it
+// hands out ids that say nothing about creation order (here: decreasing)
+function fakeContext(initial: StoredMetadata[] = []) {
+  const store = [...initial];
+  let nextId = 1000;
+  const search = vi.fn(async () => ({
+    data: {
+      matchedDeveloperMetadata: store
+        .filter((m) => m.metadataKey === LOCK_METADATA_KEY)
+        .map((developerMetadata) => ({ developerMetadata }))
+    }
+  }));
+  const batchUpdate = vi.fn(async ({ requestBody }) => {
+    const request = requestBody.requests[0];
+    if (request.createDeveloperMetadata) {
+      const metadata = {
+        ...request.createDeveloperMetadata.developerMetadata,
+        metadataId: nextId--
+      };
+      store.push(metadata);
+      return { data: { replies: [{ createDeveloperMetadata: { developerMetadata: metadata } }] } };
+    }
+    if (request.updateDeveloperMetadata) {
+      const { dataFilters, developerMetadata } = request.updateDeveloperMetadata;
+      const id = dataFilters[0].developerMetadataLookup.metadataId;
+      Object.assign(store.find((m) => m.metadataId === id)!, developerMetadata);
+      return { data: { replies: [] } };
+    }
+    const id = request.deleteDeveloperMetadata.dataFilter.developerMetadataLookup.metadataId;
+    store.splice(
+      store.findIndex((m) => m.metadataId === id),
+      1
+    );
+    return { data: { replies: [] } };
+  });
+  const ctx = {
+    sheets: { spreadsheets: { batchUpdate, developerMetadata: { search } } },
+    spreadsheetId: "sheet",
+    metadata: null
+  } as unknown as Parameters<typeof acquireLock>[0];
+  return { ctx, store };
+}
+
+const lock = (
+  metadataId: number,
+  owner: string,
+  expiresAt: number,
+  createdAt = Date.now()
+): StoredMetadata => ({
+  metadataId,
+  metadataKey: LOCK_METADATA_KEY,
+  metadataValue: JSON.stringify({ owner, createdAt, expiresAt })
+});
+
+const stored = (metadata: StoredMetadata) => JSON.parse(metadata.metadataValue);
+
+const options = { owner: "deploy run 1 (web → production)", timeoutSeconds: 1, ttlSeconds: 600 };
+
+describe("acquireLock", () => {
+  it("takes a free lock and releases it", async () => {
+    const { ctx, store } = fakeContext();
+    const id = await acquireLock(ctx, options, 10, 0);
+    expect(store).toHaveLength(1);
+    expect(stored(store[0]).owner).toBe(options.owner);
+
+    await releaseLock(ctx, id);
+    expect(store).toHaveLength(0);
+  });
+
+  it("waits for a lock held by another run", async () => {
+    const { ctx, store } = fakeContext([lock(1, "other run", Date.now() + 60000)]);
+    setTimeout(() => store.splice(0, 1), 30);
+    const id = await acquireLock(ctx, options, 10, 0);
+    expect(store.map((m) => m.metadataId)).toEqual([id]);
+  });
+
+  it("times out while another run holds the lock", async () => {
+    const { ctx } = fakeContext([lock(1, "other run", Date.now() + 60000)]);
+    await expect(acquireLock(ctx, { ...options, timeoutSeconds: 0.05 }, 10, 0)).rejects.toThrow(
+      "waiting for the spreadsheet lock held by other run"
+    );
+  });
+
+  it("removes stale and unreadable locks", async () => {
+    const { ctx, store } = fakeContext([
+      lock(1, "crashed run", Date.now() - 1000),
+      { metadataId: 2, metadataKey: LOCK_METADATA_KEY, metadataValue: "garbage" }
+    ]);
+    const id = await acquireLock(ctx, options, 10, 0);
+    expect(store.map((m) => m.metadataId)).toEqual([id]);
+  });
+
+  it("backs off when another run created its lock first, whatever the ids", async () => {
+    const { ctx, store } = fakeContext();
+    const search = ctx.sheets.spreadsheets.developerMetadata.search as ReturnType<typeof vi.fn>;
+    // The other run's lock (created earlier, higher id) appears right after this run checked
+    search.mockImplementationOnce(async () => {
+      store.push(lock(5000, "other run", Date.now() + 30, Date.now() - 10));
+      return { data: { matchedDeveloperMetadata: [] } };
+    });
+    const id = await acquireLock(ctx, options, 10, 0);
+    expect(id).toBe(999);
+    expect(store.map((m) => m.metadataId)).toEqual([999]);
+  });
+
+  it("keeps its lock over one created later with a lower id", async () => {
+    const { ctx, store } = fakeContext();
+    const batchUpdate = ctx.sheets.spreadsheets.batchUpdate as ReturnType<typeof vi.fn>;
+    const create = batchUpdate.getMockImplementation()!;
+    // The other run creates its lock while this run waits for locks to settle
+    batchUpdate.mockImplementationOnce(async (request) => {
+      const reply = await create(request);
+      store.push(lock(1, "other run", Date.now() + 60000, Date.now() + 5));
+      return reply;
+    });
+    const id = await acquireLock(ctx, options, 10, 10);
+    expect(id).toBe(1000);
+  });
+});
+
+describe("renewLock", () => {
+  it("extends a held lock and keeps its creation time", async () => {
+    const createdAt = Date.now() - 5000;
+    const { ctx, store } = fakeContext([lock(7, options.owner, Date.now() + 1000, createdAt)]);
+    await renewLock(ctx, 7, options);
+    expect(stored(store[0]).createdAt).toBe(createdAt);
+    expect(stored(store[0]).expiresAt).toBeGreaterThan(Date.now() + 599000);
+  });
+
+  it("throws when the lock expired or was removed by another run", async () => {
+    const { ctx } = fakeContext([lock(7, options.owner, Date.now() - 1)]);
+    await expect(renewLock(ctx, 7, options)).rejects.toThrow("Lost the spreadsheet lock");
+    await expect(renewLock(ctx, 8, options)).rejects.toThrow("Lost the spreadsheet lock");
+  });
+});
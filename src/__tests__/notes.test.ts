@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DEFAULT_CONFIG } from "../config";
+import {
+  buildHtmlNotes,
+  buildMarkdownNotes,
+  buildReleaseNotes,
+  buildTextNotes,
+  parseReleaseNotesFormat,
+  writeReleaseNotesFile
+} from "../notes";
+import { PRInfo } from "../types";
+
+const options = {
+  version: "#1.2.0",
+  baseTag: "v1.1.0-stage",
+  headTag: "v1.2.0-stage",
+  environment: "stage",
+  jiraBaseUrl: "https://jira/browse/",
+  config: DEFAULT_CONFIG
+};
+
+const entry = (issue: string, app: string, url: string, extra: Partial<PRInfo> = {}): PRInfo => ({
+  issue,
+  title: `${issue} <title>`,
+  author: "alice",
+  environment: "stage",
+  app,
+  url,
+  ...extra
+});
+
+const prInfos = [
+  entry("ADV-1", "web", "https://github.com/o/r/pull/1", {
+    jira: {
+      key: "ADV-1",
+      summary: "Widget",
+      status: "Done",
+      assignee: "",
+      issueType: "Story"
+    }
+  }),
+  entry("ADV-1", "web", "https://github.com/o/r/pull/2", { author: "unknown" }),
+  entry("ADV-2", "admin", "https://github.com/o/r/pull/3"),
+  entry("ADV-1", "web", "https://github.com/o/r/pull/1")
+];
+
+describe("parseReleaseNotesFormat", () => {
+  it("defaults to markdown", () => {
+    expect(parseReleaseNotesFormat("")).toBe("markdown");
+    expect(parseReleaseNotesFormat("HTML")).toBe("html");
+  });
+
+  it("throws for unknown formats", () => {
+    expect(() => parseReleaseNotesFormat("pdf")).toThrow('Invalid release-notes-format: "pdf"');
+  });
+});
+
+describe("buildMarkdownNotes", () => {
+  it("groups tickets by app with Jira links, PR links and authors", () => {
+    expect(buildMarkdownNotes(prInfos, options)).toBe(
+      [
+        "## Release #1.2.0 to Stage (v1.1.0-stage...v1.2.0-stage)",
+        "",
+        "### Web",
+        "",
+        "- **[ADV-1](https://jira/browse/ADV-1)** Widget",
+        "  - [ADV-1 <title>](https://github.com/o/r/pull/1) by @alice",
+        "  - [ADV-1 <title>](https://github.com/o/r/pull/2)",
+        "",
+        "### Admin",
+        "",
+        "- **[ADV-2](https://jira/browse/ADV-2)** ADV-2 <title>",
+        "  - [ADV-2 <title>](https://github.com/o/r/pull/3) by @alice",
+        ""
+      ].join("\n")
+    );
+  });
+
+  it("uses the head tag without a version and omits the range without a base tag", () => {
+    const notes = buildMarkdownNotes([], { ...options, version: "", baseTag: "" });
+    expect(notes.split("\n")[0]).toBe("## Release v1.2.0-stage to Stage");
+  });
+});
+
+describe("buildTextNotes", () => {
+  it("lists tickets with their links", () => {
+    expect(buildTextNotes(prInfos.slice(2, 3), options)).toBe(
+      [
+        "Release #1.2.0 to Stage (v1.1.0-stage...v1.2.0-stage)",
+        "",
+        "Admin:",
+        "- ADV-2 ADV-2 <title>",
+        "  https://jira/browse/ADV-2",
+        "  https://github.com/o/r/pull/3 (alice)",
+        ""
+      ].join("\n")
+    );
+  });
+});
+
+describe("buildHtmlNotes", () => {
+  it("escapes titles and links tickets and PRs", () => {
+    const html = buildHtmlNotes(prInfos.slice(2, 3), options);
+    expect(html).toContain("<h3>Admin</h3>");
+    expect(html).toContain(
+      '<li><strong><a href="https://jira/browse/ADV-2">ADV-2</a></strong> ADV-2 &lt;title&gt;'
+    );
+    expect(html).toContain(
+      '<li><a href="https://github.com/o/r/pull/3">ADV-2 &lt;title&gt;</a> by @alice</li>'
+    );
+  });
+});
+
+describe("writeReleaseNotesFile", () => {
+  it("creates missing directories", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "release-notes-"));
+    const file = path.join(dir, "out", "notes.txt");
+    try {
+      writeReleaseNotesFile(file, buildReleaseNotes(prInfos, options, "text"));
+      expect(fs.readFileSync(file, "utf8")).toContain("Web:");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
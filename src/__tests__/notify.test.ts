@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import * as http from "http";
+import { AddressInfo } from "net";
+
+vi.mock("@actions/core", () => ({
+  info: vi.fn(),
+  warning: vi.fn()
+}));
+
+import * as core from "@actions/core";
+import { DEFAULT_CONFIG } from "../config";
+import {
+  buildTemplateValues,
+  buildWebhookPayload,
+  DEFAULT_NOTIFY_TEMPLATE,
+  renderTemplate,
+  sendNotifications
+} from "../notify";
+import { PRInfo, SyncResult } from "../types";
+
+// Local stand-in for the Slack and Teams webhooks
+const received: Array<{ url: string; body: Record<string, string> }> = [];
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    received.push({ url: req.url ?? "", body: JSON.parse(body) });
+    res.writeHead(req.url === "/broken" ? 500 : 200);
+    res.end("ok");
+  });
+});
+
+let baseUrl = "";
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const pr = (issue: string, title: string): PRInfo => ({
+  issue,
+  title,
+  author: "alice",
+  environment: "production",
+  app: "web",
+  url: ""
+});
+
+const prInfos = [pr("ADV-1", "Fix <login>"), pr("ADV-2", "Add export"), pr("ADV-1", "Fix <login>")];
+
+const result: SyncResult = {
+  sheetName: "Next",
+  dryRun: false,
+  plan: { added: [], updated: [], skipped: [], cells: [] },
+  versions: [],
+  tabs: [],
+  archiveName: "2026-02-16",
+  archiveSheetId: 42
+};
+
+const options = {
+  slackWebhookUrl: "",
+  teamsWebhookUrl: "",
+  template: DEFAULT_NOTIFY_TEMPLATE,
+  spreadsheetId: "sheet-id",
+  version: "#1.2.0",
+  jiraBaseUrl: "https://jira/browse",
+  config: DEFAULT_CONFIG
+};
+
+describe("renderTemplate", () => {
+  it("fills placeholders and keeps unknown ones", () => {
+    expect(renderTemplate("{app} {version} {other}", { app: "Web", version: "#1" })).toBe(
+      "Web #1 {other}"
+    );
+  });
+
+  it("drops lines whose placeholders are all empty", () => {
+    expect(renderTemplate("Released\nArchive: {archive-url}", { "archive-url": "" })).toBe(
+      "Released"
+    );
+  });
+});
+
+describe("buildTemplateValues", () => {
+  it("lists each ticket once with platform links and links the archive tab", () => {
+    const slack = buildTemplateValues(prInfos, result, options, "slack");
+    expect(slack).toMatchObject({
+      environment: "Production",
+      app: "Web",
+      count: "2",
+      "archive-tab": "2026-02-16",
+      "archive-url": "https://docs.google.com/spreadsheets/d/sheet-id/edit#gid=42"
+    });
+    expect(slack.tickets).toBe(
+      "• <https://jira/browse/ADV-1|ADV-1> Fix &lt;login&gt;\n• <https://jira/browse/ADV-2|ADV-2> Add export"
+    );
+
+    const teams = buildTemplateValues(prInfos, { ...result, archiveName: null }, options, "teams");
+    expect(teams.tickets.split("\n")[0]).toBe("- [ADV-1](https://jira/browse/ADV-1) Fix <login>");
+    expect(teams["archive-url"]).toBe("");
+  });
+});
+
+describe("buildWebhookPayload", () => {
+  it("sends Teams a MessageCard with separated lines", () => {
+    expect(buildWebhookPayload("teams", "Title\nLine")).toEqual({
+      "@type": "MessageCard",
+      "@context": "https://schema.org/extensions",
+      summary: "Title",
+      text: "Title\n\nLine"
+    });
+  });
+});
+
+describe("sendNotifications", () => {
+  it("posts to each configured webhook", async () => {
+    received.length = 0;
+    await sendNotifications(prInfos, result, {
+      ...options,
+      slackWebhookUrl: `${baseUrl}/slack`,
+      teamsWebhookUrl: `${baseUrl}/teams`
+    });
+    expect(received.map((r) => r.url)).toEqual(["/slack", "/teams"]);
+    expect(received[0].body.text.split("\n")[0]).toBe(
+      "🚀 Web #1.2.0 deployed to Production (2 ticket(s))"
+    );
+    expect(received[1].body["@type"]).toBe("MessageCard");
+  });
+
+  it("warns instead of failing when a webhook errors", async () => {
+    await expect(
+      sendNotifications(prInfos, result, { ...options, slackWebhookUrl: `${baseUrl}/broken` })
+    ).resolves.toBeUndefined();
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining("Could not send slack notification: HTTP 500")
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@actions/core", () => ({
+  setOutput: vi.fn()
+}));
+
+import { buildOutputs } from "../outputs";
+import { PRInfo, SyncResult } from "../types";
+
+const prInfos: PRInfo[] = [
+  {
+    issue: "ADV-1",
+    title: "ADV-1 Fix",
+    author: "alice",
+    environment: "production",
+    app: "web",
+    url: "https://github.com/o/r/pull/1"
+  }
+];
+
+const result: SyncResult = {
+  sheetName: "Next",
+  dryRun: false,
+  plan: {
+    added: [
+      {
+        issue: "ADV-1",
+        row: 5,
+        fromEnvironment: "",
+        toEnvironment: "Production",
+        fromApp: "Web",
+        toApp: "Web"
+      }
+    ],
+    updated: [
+      {
+        issue: "ADV-2",
+        row: 3,
+        fromEnvironment: "Stage",
+        toEnvironment: "Production",
+        fromApp: "Web",
+        toApp: "Web"
+      },
+      {
+        issue: "ADV-3",
+        row: 4,
+        fromEnvironment: "Stage",
+        toEnvironment: "Production",
+        fromApp: "Web",
+        toApp: "Web"
+      }
+    ],
+    skipped: [],
+    cells: []
+  },
+  versions: [],
+  tabs: [],
+  archiveName: "2026-02-16",
+  archiveSheetId: 0
+};
+
+describe("buildOutputs", () => {
+  it("describes the sync result", () => {
+    const outputs = buildOutputs("sheet-id", prInfos, "v1.0.0-prod", result);
+    expect(outputs["added-tickets"]).toBe("ADV-1");
+    expect(outputs["updated-tickets"]).toBe("ADV-2,ADV-3");
+    expect(outputs["base-tag"]).toBe("v1.0.0-prod");
+    expect(outputs["archive-tab"]).toBe("2026-02-16");
+    expect(outputs["sheet-url"]).toBe("https://docs.google.com/spreadsheets/d/sheet-id");
+    expect(JSON.parse(outputs["pr-info"])).toEqual(prInfos);
+  });
+
+  it("returns empty values when nothing was synced", () => {
+    const outputs = buildOutputs("sheet-id", [], "", null);
+    expect(outputs["added-tickets"]).toBe("");
+    expect(outputs["updated-tickets"]).toBe("");
+    expect(outputs["archive-tab"]).toBe("");
+    expect(outputs["pr-info"]).toBe("[]");
+  });
+});
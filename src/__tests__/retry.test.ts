@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@actions/core", () => ({
+  info: vi.fn(),
+  warning: vi.fn()
+}));
+
+import {
+  backoffDelay,
+  DEFAULT_RETRY_OPTIONS,
+  isRetryableError,
+  parseRetryAttempts,
+  retryAfterMs,
+  withRetry
+} from "../retry";
+
+const httpError = (status: number, headers: Record<string, string> = {}, message = "failed") =>
+  Object.assign(new Error(message), { status, response: { status, headers } });
+
+describe("parseRetryAttempts", () => {
+  it("defaults to 5 and rejects anything below 1", () => {
+    expect(parseRetryAttempts("")).toBe(5);
+    expect(parseRetryAttempts("1")).toBe(1);
+    expect(() => parseRetryAttempts("0")).toThrow('Invalid retry-attempts: "0"');
+    expect(() => parseRetryAttempts("2.5")).toThrow("Invalid retry-attempts");
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries rate limits, server errors and network errors", () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error("reset"), { code: "ECONNRESET" }))).toBe(true);
+    expect(
+      isRetryableError(
+        Object.assign(new TypeError("fetch failed"), { cause: { code: "ETIMEDOUT" } })
+      )
+    ).toBe(true);
+  });
+
+  it("treats GitHub 403s as retryable only when they are rate limits", () => {
+    expect(isRetryableError(httpError(403))).toBe(false);
+    expect(isRetryableError(httpError(403, { "retry-after": "30" }))).toBe(true);
+    expect(isRetryableError(httpError(403, {}, "You have exceeded a secondary rate limit"))).toBe(
+      true
+    );
+  });
+
+  it("fails fast on client errors", () => {
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(httpError(404))).toBe(false);
+    expect(isRetryableError(new Error("❌ Sheet not found"))).toBe(false);
+  });
+});
+
+describe("retryAfterMs", () => {
+  const now = Date.parse("2026-02-16T10:00:00Z");
+
+  it("reads Retry-After seconds and dates from plain and fetch headers", () => {
+    expect(retryAfterMs(httpError(429, { "retry-after": "3" }), now)).toBe(3000);
+    expect(
+      retryAfterMs(httpError(429, { "retry-after": "Mon, 16 Feb 2026 10:00:10 GMT" }), now)
+    ).toBe(10000);
+    const fetchError = { status: 429, response: { headers: new Headers({ "Retry-After": "2" }) } };
+    expect(retryAfterMs(fetchError, now)).toBe(2000);
+  });
+
+  it("waits for GitHub's rate limit reset when no requests are left", () => {
+    const reset = String(now / 1000 + 20);
+    const error = httpError(403, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": reset });
+    expect(retryAfterMs(error, now)).toBe(20000);
+    expect(retryAfterMs(httpError(503), now)).toBeNull();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles the ceiling per attempt up to the maximum", () => {
+    const options = { maxAttempts: 10, baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect(backoffDelay(1, options, () => 1)).toBe(1000);
+    expect(backoffDelay(3, options, () => 1)).toBe(4000);
+    expect(backoffDelay(6, options, () => 1)).toBe(5000);
+    expect(backoffDelay(3, options, () => 0.5)).toBe(2000);
+  });
+});
+
+describe("withRetry", () => {
+  const wait = vi.fn(async () => undefined);
+
+  it("retries transient failures until the call succeeds", async () => {
+    const call = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "1" }))
+      .mockResolvedValue("ok");
+
+    await expect(withRetry("Reading", call, DEFAULT_RETRY_OPTIONS, wait)).resolves.toBe("ok");
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(wait).toHaveBeenLastCalledWith(1000);
+  });
+
+  it("rethrows fatal errors without retrying", async () => {
+    const call = vi.fn().mockRejectedValue(httpError(404));
+    await expect(withRetry("Reading", call, DEFAULT_RETRY_OPTIONS, wait)).rejects.toThrow("failed");
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the configured attempts", async () => {
+    const call = vi.fn().mockRejectedValue(httpError(503));
+    await expect(
+      withRetry("Reading", call, { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 3 }, wait)
+    ).rejects.toThrow("failed");
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up when asked to wait too long", async () => {
+    const call = vi.fn().mockRejectedValue(httpError(429, { "retry-after": "3600" }));
+    await expect(withRetry("Reading", call, DEFAULT_RETRY_OPTIONS, wait)).rejects.toThrow("failed");
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
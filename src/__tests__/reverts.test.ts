@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { findRevertedCommits, parseRevert, parseRevertedTickets } from "../reverts";
+
+const commit = (sha: string, message: string, parents: string[]) => ({
+  sha,
+  parents: parents.map((p) => ({ sha: p })),
+  commit: { message }
+});
+
+const sorted = (shas: Set<string>) => [...shas].sort();
+
+describe("parseRevertedTickets", () => {
+  it("defaults to mark and rejects unknown values", () => {
+    expect(parseRevertedTickets("")).toBe("mark");
+    expect(parseRevertedTickets(" Skip ")).toBe("skip");
+    expect(() => parseRevertedTickets("drop")).toThrow('Invalid reverted-tickets: "drop"');
+  });
+});
+
+describe("parseRevert", () => {
+  it("reads the reverted commit from git revert messages", () => {
+    expect(parseRevert("ADV-1 Add widget")).toBeNull();
+    expect(parseRevert('Revert "ADV-1 Add widget"\n\nThis reverts commit ABCDEF1234.')).toEqual({
+      sha: "abcdef1234",
+      reapply: false
+    });
+    expect(parseRevert('Revert "ADV-1 Add widget (#12)" (#13)')).toEqual({
+      sha: "",
+      reapply: false
+    });
+  });
+
+  it("treats reverted reverts as reapplying the change", () => {
+    expect(parseRevert('Revert "Revert "ADV-1 Add widget""')?.reapply).toBe(true);
+    expect(parseRevert('Reapply "ADV-1 Add widget"\n\nThis reverts commit 1234567.')).toEqual({
+      sha: "1234567",
+      reapply: true
+    });
+  });
+});
+
+describe("findRevertedCommits", () => {
+  it("nets a revert against the commit it undoes", () => {
+    const { netted, reverting } = findRevertedCommits([
+      commit("aaaaaaa", "ADV-1 Add widget", ["base"]),
+      commit("bbbbbbb", "ADV-2 Add report", ["aaaaaaa"]),
+      commit("ccccccc", 'Revert "ADV-2 Add report"\n\nThis reverts commit bbbbbbb.', ["bbbbbbb"])
+    ]);
+    expect(sorted(netted)).toEqual(["bbbbbbb", "ccccccc"]);
+    expect(reverting.size).toBe(0);
+  });
+
+  it("keeps the original change when its revert is reverted, whatever the input order", () => {
+    const { netted } = findRevertedCommits([
+      commit("ddddddd", 'Revert "Revert "ADV-1""\n\nThis reverts commit bbbbbbb.', ["bbbbbbb"]),
+      commit("aaaaaaa", "ADV-1 Add widget", ["base"]),
+      commit("bbbbbbb", 'Revert "ADV-1"\n\nThis reverts commit aaaaaaa.', ["aaaaaaa"])
+    ]);
+    expect(sorted(netted)).toEqual(["bbbbbbb", "ddddddd"]);
+  });
+
+  it("reports reverts of changes made before the range", () => {
+    const { netted, reverting } = findRevertedCommits([
+      commit("aaaaaaa", 'Revert "ADV-9 Old feature"\n\nThis reverts commit 9999999.', ["base"])
+    ]);
+    expect(netted.size).toBe(0);
+    expect(sorted(reverting)).toEqual(["aaaaaaa"]);
+  });
+
+  it("takes out every commit of a reverted merge and merges of revert branches", () => {
+    const merge = findRevertedCommits([
+      commit("aaaaaaa", "ADV-1 Part one", ["base"]),
+      commit("bbbbbbb", "ADV-1 Part two", ["aaaaaaa"]),
+      commit("ccccccc", "Merge pull request #1 from o/ADV-1", ["base", "bbbbbbb"]),
+      commit("ddddddd", "ADV-2 Unrelated", ["ccccccc"]),
+      commit("eeeeeee", 'Revert "Merge pull request #1"\n\nThis reverts commit ccccccc.', [
+        "ddddddd"
+      ])
+    ]);
+    expect(sorted(merge.netted)).toEqual(["aaaaaaa", "bbbbbbb", "ccccccc", "eeeeeee"]);
+
+    const revertBranch = findRevertedCommits([
+      commit("aaaaaaa", "ADV-1 Add widget (#1)", ["base"]),
+      commit("bbbbbbb", 'Revert "ADV-1 Add widget (#1)"\n\nThis reverts commit aaaaaaa.', [
+        "aaaaaaa"
+      ]),
+      commit("ccccccc", "Merge pull request #2 from o/revert-1", ["aaaaaaa", "bbbbbbb"])
+    ]);
+    expect(sorted(revertBranch.netted)).toEqual(["aaaaaaa", "bbbbbbb", "ccccccc"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@actions/core", () => ({
+  info: vi.fn()
+}));
+
+import { buildChangeRows } from "../summary";
+import { SyncResult } from "../types";
+
+const result: SyncResult = {
+  sheetName: "Next",
+  dryRun: true,
+  plan: {
+    added: [
+      {
+        issue: "ADV-3",
+        row: 7,
+        fromEnvironment: "",
+        toEnvironment: "Production",
+        fromApp: "Web",
+        toApp: "Web"
+      }
+    ],
+    updated: [
+      {
+        issue: "ADV-1",
+        row: 5,
+        fromEnvironment: "Stage",
+        toEnvironment: "Production",
+        fromApp: "Web",
+        toApp: "Web, Admin"
+      }
+    ],
+    skipped: [
+      {
+        issue: "ADV-2",
+        row: 6,
+        fromEnvironment: "Production",
+        toEnvironment: "Internal",
+        fromApp: "Web",
+        toApp: "Web"
+      }
+    ],
+    cells: []
+  },
+  versions: [{ sheet: "Next", cell: "H2", from: "#1", to: "#2" }],
+  tabs: [
+    { action: "rename", from: "Next", to: "2026-02-16" },
+    { action: "copy", from: "Template", to: "Next" }
+  ],
+  archiveName: "2026-02-16",
+  archiveSheetId: 0
+};
+
+describe("buildChangeRows", () => {
+  it("lists version, row, environment and tab changes in order", () => {
+    expect(buildChangeRows(result)).toEqual([
+      ["Set version", "Next!H2", "#1", "#2"],
+      ["Add row", "Next row 7 (ADV-3, Web)", "", "Production"],
+      ["Update environment", "Next row 5 (ADV-1)", "Stage", "Production"],
+      ["Update app", "Next row 5 (ADV-1)", "Web", "Web, Admin"],
+      ["Skip regression", "Next row 6 (ADV-2)", "Production", "Internal"],
+      ["Rename tab", "Tab", "Next", "2026-02-16"],
+      ["Copy tab", "Tab", "Template", "Next"]
+    ]);
+  });
+
+  it("returns no rows for an empty result", () => {
+    expect(
+      buildChangeRows({
+        ...result,
+        plan: { added: [], updated: [], skipped: [], cells: [] },
+        versions: [],
+        tabs: []
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { buildTicketPattern, isTicketKey, parseProjectKeys, parseTicketSources } from "../tickets";
+
+describe("parseProjectKeys", () => {
+  it("splits and uppercases comma-separated keys", () => {
+    expect(parseProjectKeys("adv, web")).toEqual(["ADV", "WEB"]);
+  });
+
+  it("deduplicates keys", () => {
+    expect(parseProjectKeys("ADV,adv")).toEqual(["ADV"]);
+  });
+
+  it("falls back to ADV for empty input", () => {
+    expect(parseProjectKeys("")).toEqual(["ADV"]);
+  });
+
+  it("throws for invalid keys", () => {
+    expect(() => parseProjectKeys("ADV,1WEB")).toThrow('Invalid Jira project key: "1WEB"');
+    expect(() => parseProjectKeys("AD V")).toThrow("Invalid Jira project key");
+  });
+});
+
+describe("buildTicketPattern", () => {
+  it("matches tickets from every project key", () => {
+    const pattern = buildTicketPattern(["ADV", "WEB"]);
+    expect(isTicketKey("ADV-1", pattern)).toBe(true);
+    expect(isTicketKey("WEB-22", pattern)).toBe(true);
+    expect(isTicketKey("CM-3", pattern)).toBe(false);
+  });
+
+  it("does not match a key inside a longer project key", () => {
+    const pattern = buildTicketPattern(["DV"]);
+    expect("ADV-1".match(pattern)).toBeNull();
+    expect("feature/DV-1".match(pattern)?.[0]).toBe("DV-1");
+  });
+
+  it("uses the custom pattern over project keys", () => {
+    const pattern = buildTicketPattern(["ADV"], "[A-Z]{2,10}-\\d+");
+    expect(isTicketKey("OPS-9", pattern)).toBe(true);
+  });
+
+  it("throws for an invalid custom pattern", () => {
+    expect(() => buildTicketPattern([], "ADV-(")).toThrow("Invalid Jira ticket pattern");
+  });
+
+  it("throws for a custom pattern matching empty text", () => {
+    expect(() => buildTicketPattern([], "\\d*")).toThrow("matches empty text");
+  });
+});
+
+describe("parseTicketSources", () => {
+  it("defaults to the PR title", () => {
+    expect(parseTicketSources("")).toEqual(["title"]);
+  });
+
+  it("normalizes and deduplicates sources", () => {
+    expect(parseTicketSources("Branch, title, branch, COMMITS")).toEqual([
+      "branch",
+      "title",
+      "commits"
+    ]);
+  });
+
+  it("throws for unknown sources", () => {
+    expect(() => parseTicketSources("title, labels")).toThrow('Invalid ticket source: "labels"');
+  });
+});
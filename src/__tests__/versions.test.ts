@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { compareSortKeys, parseTagScheme, sortTagsDescending, tagSortKey } from "../versions";
+
+describe("parseTagScheme", () => {
+  it("defaults to natural", () => {
+    expect(parseTagScheme("")).toBe("natural");
+  });
+
+  it("accepts known schemes case-insensitively", () => {
+    expect(parseTagScheme("SemVer")).toBe("semver");
+    expect(parseTagScheme("date")).toBe("date");
+    expect(parseTagScheme("build")).toBe("build");
+  });
+
+  it("throws for unknown schemes", () => {
+    expect(() => parseTagScheme("calver")).toThrow('Invalid tag-scheme: "calver"');
+  });
+});
+
+describe("tagSortKey", () => {
+  it("natural: uses every number", () => {
+    expect(tagSortKey("v1.10.0-prod", "natural", "prod")).toEqual([1, 10, 0]);
+    expect(tagSortKey("20250615.31712.0-prod", "natural", "prod")).toEqual([20250615, 31712, 0]);
+    expect(tagSortKey("release-prod", "natural", "prod")).toBeNull();
+  });
+
+  it("semver: orders pre-releases before releases", () => {
+    expect(tagSortKey("v1.2.3-prod", "semver", "prod")).toEqual([1, 2, 3, 1]);
+    expect(tagSortKey("1.2.3-rc.2-prod", "semver", "prod")).toEqual([1, 2, 3, 0, 2]);
+    expect(tagSortKey("1.2-prod", "semver", "prod")).toBeNull();
+  });
+
+  it("date: parses dates of different widths", () => {
+    expect(tagSortKey("2025.6.1-prod", "date", "prod")).toEqual([2025, 6, 1]);
+    expect(tagSortKey("2025-06-15.3-prod", "date", "prod")).toEqual([2025, 6, 15, 3]);
+    expect(tagSortKey("20250615.31712.0-prod", "date", "prod")).toEqual([2025, 6, 15, 31712, 0]);
+    expect(tagSortKey("v1.0.0-prod", "date", "prod")).toBeNull();
+  });
+
+  it("build: uses the last number", () => {
+    expect(tagSortKey("build-123-prod", "build", "prod")).toEqual([123]);
+    expect(tagSortKey("build-prod", "build", "prod")).toBeNull();
+  });
+});
+
+describe("compareSortKeys", () => {
+  it("compares element by element", () => {
+    expect(compareSortKeys([1, 10, 0], [1, 9, 0])).toBeGreaterThan(0);
+    expect(compareSortKeys([1, 0], [1, 0])).toBe(0);
+    expect(compareSortKeys([1, 0], [1, 0, 1])).toBeLessThan(0);
+  });
+});
+
+describe("sortTagsDescending", () => {
+  it("orders v1.10.0 after v1.9.0", () => {
+    expect(
+      sortTagsDescending(["v1.9.0-prod", "v1.10.0-prod", "v1.2.0-prod"], "natural", "prod")
+    ).toEqual(["v1.10.0-prod", "v1.9.0-prod", "v1.2.0-prod"]);
+  });
+
+  it("orders date tags of different widths", () => {
+    expect(
+      sortTagsDescending(["2025.6.1-prod", "2025.06.15-prod", "2024.12.31-prod"], "date", "prod")
+    ).toEqual(["2025.06.15-prod", "2025.6.1-prod", "2024.12.31-prod"]);
+  });
+
+  it("drops tags that do not follow the scheme", () => {
+    expect(sortTagsDescending(["v1.0.0-prod", "hotfix-prod"], "semver", "prod")).toEqual([
+      "v1.0.0-prod"
+    ]);
+  });
+
+  it("puts semver pre-releases before the release", () => {
+    expect(sortTagsDescending(["1.0.0-prod", "1.0.0-rc.1-prod"], "semver", "prod")).toEqual([
+      "1.0.0-prod",
+      "1.0.0-rc.1-prod"
+    ]);
+  });
+});
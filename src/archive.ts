@@ -0,0 +1,173 @@
+import {
+  ArchiveRetention,
+  ArchiveRetentionAction,
+  SheetTab,
+  TabOperation,
+  TrackerKind
+} from "./types";
+
+// Archive tabs are named by date unless archive-name says otherwise; repeated deploys get a
+// counter ("2026-02-16 (2)")
+export const DEFAULT_ARCHIVE_NAME = "{date}";
+
+export const ARCHIVE_RETENTION_ACTIONS: ArchiveRetentionAction[] = ["hide", "delete", "move"];
+
+const PLACEHOLDERS = ["date", "version", "app"];
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+const DATE_PATTERN = "\\d{4}-\\d{2}-\\d{2}";
+
+// Characters Excel tab names and file names cannot hold
+const UNSAFE_CHARACTERS = /[\\/:?*[\]]/g;
+
+function safeName(text: string): string {
+  return text.replace(UNSAFE_CHARACTERS, "-");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Parse the archive-name input. {date} is required: it tells archives apart from other tabs
+// and orders them for the retention policy
+export function parseArchiveNameTemplate(input: string): string {
+  const template = input.trim() || DEFAULT_ARCHIVE_NAME;
+  const placeholders: string[] = template.match(PLACEHOLDER_PATTERN) ?? [];
+  const unknown = placeholders.find((p) => !PLACEHOLDERS.includes(p.slice(1, -1)));
+  if (unknown) {
+    throw new Error(
+      `❌ Invalid archive-name: unknown placeholder ${unknown}. Use {date}, {version} or {app}`
+    );
+  }
+  if (!placeholders.includes("{date}")) {
+    throw new Error(`❌ Invalid archive-name: "${input}". It must contain {date}`);
+  }
+  return template;
+}
+
+// Parse the archive-timezone input (an IANA name); empty keeps the runner's local time
+export function parseTimeZone(input: string): string {
+  const timeZone = input.trim();
+  if (timeZone) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+    } catch {
+      throw new Error(
+        `❌ Invalid archive-timezone: "${input}". Use an IANA time zone (e.g., Europe/Oslo or UTC)`
+      );
+    }
+  }
+  return timeZone;
+}
+
+// YYYY-MM-DD in the time zone
+export function formatDate(date: Date, timeZone = ""): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timeZone || undefined,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+// Fill in the template; characters tab and file names cannot hold become "-"
+export function formatArchiveName(
+  template: string,
+  values: { date: string; version: string; app: string }
+): string {
+  const name = template.replace(
+    PLACEHOLDER_PATTERN,
+    (_, key: string) => values[key as keyof typeof values]
+  );
+  return safeName(name).trim();
+}
+
+// Matches the names the template gives (with or without a version, and with a counter)
+export function archiveNamePattern(template: string): RegExp {
+  let dated = false;
+  const source = template
+    .split(PLACEHOLDER_PATTERN)
+    .map((part, i) => {
+      // split puts the placeholder names at odd positions
+      if (i % 2 === 0) {
+        return escapeRegExp(safeName(part)).replace(/\s+/g, "\\s*");
+      }
+      if (part === "date" && !dated) {
+        dated = true;
+        return `(?<date>${DATE_PATTERN})`;
+      }
+      return part === "date" ? DATE_PATTERN : ".*?";
+    })
+    .join("");
+  return new RegExp(`^\\s*${source}\\s*(?: \\((?<counter>\\d+)\\))?$`);
+}
+
+// Archive tabs, newest first: by the date in the name, then by the counter of repeated
+// deploys, then by tab position
+export function findArchives(tabs: SheetTab[], template: string): SheetTab[] {
+  const pattern = archiveNamePattern(template);
+  return tabs
+    .map((tab) => ({ tab, groups: tab.title.match(pattern)?.groups }))
+    .filter((a): a is { tab: SheetTab; groups: Record<string, string> } => Boolean(a.groups))
+    .sort(
+      (a, b) =>
+        b.groups.date.localeCompare(a.groups.date) ||
+        Number(b.groups.counter ?? 1) - Number(a.groups.counter ?? 1) ||
+        a.tab.index - b.tab.index
+    )
+    .map((a) => a.tab);
+}
+
+// Parse the retention inputs: how many archives to keep and what to do with older ones
+export function parseArchiveRetention(
+  keepInput: string,
+  actionInput: string,
+  destination: string,
+  trackerKind: TrackerKind
+): ArchiveRetention {
+  const keep = keepInput.trim() ? Number(keepInput.trim()) : null;
+  if (keep !== null && (!Number.isInteger(keep) || keep < 1)) {
+    throw new Error(
+      `❌ Invalid archive-retention: "${keepInput}". Must be the number of archive tabs to keep (at least 1)`
+    );
+  }
+
+  const action = (actionInput.trim().toLowerCase() || "hide") as ArchiveRetentionAction;
+  if (!ARCHIVE_RETENTION_ACTIONS.includes(action)) {
+    throw new Error(
+      `❌ Invalid archive-retention-action: "${actionInput}". Must be one of: ${ARCHIVE_RETENTION_ACTIONS.join(", ")}`
+    );
+  }
+  if (keep !== null && action === "move" && !destination.trim()) {
+    throw new Error("❌ archive-retention-action move needs archive-destination");
+  }
+  if (keep !== null && action === "hide" && trackerKind === "csv") {
+    throw new Error(
+      "❌ The csv tracker cannot hide tabs. Use archive-retention-action delete or move"
+    );
+  }
+
+  return { keep, action, destination: destination.trim() };
+}
+
+// Archives past the retention count; hidden ones are left alone when hiding
+export function archivesToRetire(
+  tabs: SheetTab[],
+  template: string,
+  retention: ArchiveRetention
+): SheetTab[] {
+  if (retention.keep === null) {
+    return [];
+  }
+  const old = findArchives(tabs, template).slice(retention.keep);
+  return retention.action === "hide" ? old.filter((t) => !t.hidden) : old;
+}
+
+export function retireOperation(title: string, retention: ArchiveRetention): TabOperation {
+  return {
+    action: retention.action,
+    from: title,
+    to: retention.action === "move" ? retention.destination : ""
+  };
+}
@@ -0,0 +1,97 @@
+import * as core from "@actions/core";
+import { appLabel, environmentLabel } from "./config";
+import { withRetry } from "./retry";
+import { getMetadata, SheetsContext } from "./sheets";
+import { ActionConfig, AuditOptions, PRInfo } from "./types";
+
+export const DEFAULT_AUDIT_LOG_TAB = "Deployment log";
+
+export const AUDIT_LOG_HEADERS = [
+  "Timestamp",
+  "Environment",
+  "App",
+  "Version",
+  "Base tag",
+  "Head tag",
+  "Ticket",
+  "PR",
+  "Actor",
+  "Run"
+];
+
+// One row per ticket and PR of the deployment; reverted tickets did not ship and are left out
+export function buildAuditRows(
+  prInfos: PRInfo[],
+  version: string,
+  audit: AuditOptions,
+  config: ActionConfig,
+  timestamp: Date = new Date()
+): string[][] {
+  const seen = new Set<string>();
+  const rows: string[][] = [];
+
+  for (const pr of prInfos) {
+    const key = `${pr.issue}|${pr.url}`;
+    if (pr.reverted || seen.has(key)) continue;
+    seen.add(key);
+
+    rows.push([
+      timestamp.toISOString(),
+      environmentLabel(config, pr.environment),
+      appLabel(config, pr.app),
+      version,
+      audit.baseTag,
+      audit.headTag,
+      pr.issue,
+      pr.url,
+      audit.actor,
+      audit.runUrl
+    ]);
+  }
+
+  return rows;
+}
+
+// Create the log tab with its header row when it does not exist yet
+async function ensureAuditTab(ctx: SheetsContext, tabName: string): Promise<boolean> {
+  const metadata = await getMetadata(ctx);
+  const exists = metadata.sheets?.some((s) => s.properties?.title === tabName);
+  if (exists) {
+    return false;
+  }
+
+  await withRetry(
+    `Creating "${tabName}"`,
+    () =>
+      ctx.sheets.spreadsheets.batchUpdate({
+        spreadsheetId: ctx.spreadsheetId,
+        requestBody: { requests: [{ addSheet: { properties: { title: tabName } } }] }
+      }),
+    ctx.retry
+  );
+  ctx.metadata = null;
+  core.info(`📒 Created audit log tab "${tabName}"`);
+  return true;
+}
+
+// Append rows below the existing log; the log is never rewritten
+export async function appendAuditLog(
+  ctx: SheetsContext,
+  tabName: string,
+  rows: string[][]
+): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const created = await ensureAuditTab(ctx, tabName);
+  // Not retried: a retry after a lost response would log the rows twice
+  await ctx.sheets.spreadsheets.values.append({
+    spreadsheetId: ctx.spreadsheetId,
+    range: `'${tabName.replace(/'/g, "''")}'!A1`,
+    valueInputOption: "RAW",
+    insertDataOption: "INSERT_ROWS",
+    requestBody: { values: created ? [AUDIT_LOG_HEADERS, ...rows] : rows }
+  });
+  core.info(`📒 Logged ${rows.length} row(s) to "${tabName}"`);
+}
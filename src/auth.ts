@@ -0,0 +1,184 @@
+import * as fs from "fs";
+import { CredentialBody, ExternalAccountClientOptions, GoogleAuth } from "google-auth-library";
+import { GoogleCredentials } from "./types";
+
+const SHEETS_SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+
+// Fields each supported credential type needs (service account key or Workload Identity Federation)
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  service_account: ["client_email", "private_key"],
+  external_account: ["audience", "subject_token_type", "token_url", "credential_source"]
+};
+
+// Workload Identity Federation provider resource name (as shown in the Google Cloud console)
+const PROVIDER_PATTERN =
+  /^projects\/\d+\/locations\/global\/workloadIdentityPools\/[^/]+\/providers\/[^/]+$/;
+
+// JSON.parse messages quote the input, so only the position is reported
+function parseJson(text: string, source: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    const position = (error as Error).message.match(/position (\d+)/)?.[1];
+    throw new Error(
+      `❌ ${source} is not valid JSON${position ? ` (error at position ${position})` : ""}`
+    );
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`❌ ${source} must be a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+// Token exchange endpoints must be Google's, so a credentials file cannot send tokens elsewhere
+function isGoogleApiUrl(value: unknown): boolean {
+  try {
+    const url = new URL(String(value));
+    return url.protocol === "https:" && url.hostname.endsWith(".googleapis.com");
+  } catch {
+    return false;
+  }
+}
+
+// Check the fields the credential type needs; messages name fields, never their values
+export function validateGoogleCredentials(
+  credentials: Record<string, unknown>,
+  source = "google-credentials"
+): GoogleCredentials {
+  const type = credentials.type;
+  if (typeof type !== "string" || !REQUIRED_FIELDS[type]) {
+    throw new Error(
+      `❌ ${source} has ${typeof type === "string" ? `unsupported type "${type}"` : "no type field"}. Must be one of: ${Object.keys(REQUIRED_FIELDS).join(", ")}`
+    );
+  }
+
+  const missing = REQUIRED_FIELDS[type].filter((field) => !credentials[field]);
+  if (missing.length > 0) {
+    throw new Error(`❌ ${source} (${type}) is missing: ${missing.join(", ")}`);
+  }
+
+  if (type === "service_account") {
+    if (!/-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(String(credentials.private_key))) {
+      throw new Error(`❌ ${source} (${type}): private_key is not a PEM private key`);
+    }
+    if (!String(credentials.client_email).includes("@")) {
+      throw new Error(`❌ ${source} (${type}): client_email is not an email address`);
+    }
+  } else {
+    for (const field of ["token_url", "service_account_impersonation_url"]) {
+      if (credentials[field] && !isGoogleApiUrl(credentials[field])) {
+        throw new Error(`❌ ${source} (${type}): ${field} must be an https://*.googleapis.com URL`);
+      }
+    }
+  }
+
+  return credentials as GoogleCredentials;
+}
+
+// Read google-credentials: service account or external account JSON, the same JSON
+// base64-encoded, or a path to a credentials file
+export function parseGoogleCredentials(input: string): GoogleCredentials {
+  const value = input.trim();
+  if (value.startsWith("{")) {
+    return validateGoogleCredentials(parseJson(value, "google-credentials"));
+  }
+
+  if (fs.existsSync(value)) {
+    const source = `google-credentials file ${value}`;
+    return validateGoogleCredentials(parseJson(fs.readFileSync(value, "utf8"), source), source);
+  }
+
+  if (/^[A-Za-z0-9+/_=\s-]+$/.test(value)) {
+    const decoded = Buffer.from(value, "base64").toString("utf8").trim();
+    if (decoded.startsWith("{")) {
+      const source = "google-credentials (base64)";
+      return validateGoogleCredentials(parseJson(decoded, source), source);
+    }
+  }
+
+  if (/[/\\]|\.json$/i.test(value)) {
+    throw new Error(`❌ google-credentials file not found: ${value}`);
+  }
+  throw new Error(
+    "❌ google-credentials must be JSON, base64-encoded JSON or a path to a credentials file"
+  );
+}
+
+// External account credentials that exchange the job's GitHub OIDC token for Google access,
+// optionally impersonating a service account (no key stored anywhere)
+export function workloadIdentityCredentials(
+  provider: string,
+  serviceAccount: string,
+  env: NodeJS.ProcessEnv = process.env
+): ExternalAccountClientOptions {
+  const providerName = provider.trim().replace(/^\/\/iam\.googleapis\.com\//, "");
+  if (!PROVIDER_PATTERN.test(providerName)) {
+    throw new Error(
+      `❌ Invalid workload-identity-provider: "${provider}". Expected projects/<number>/locations/global/workloadIdentityPools/<pool>/providers/<provider>`
+    );
+  }
+
+  const requestUrl = env.ACTIONS_ID_TOKEN_REQUEST_URL;
+  const requestToken = env.ACTIONS_ID_TOKEN_REQUEST_TOKEN;
+  if (!requestUrl || !requestToken) {
+    throw new Error(
+      "❌ workload-identity-provider needs the GitHub OIDC token. Add `permissions: id-token: write` to the job."
+    );
+  }
+
+  const audience = `https://iam.googleapis.com/${providerName}`;
+  const separator = requestUrl.includes("?") ? "&" : "?";
+  const credentials: ExternalAccountClientOptions = {
+    type: "external_account",
+    audience: `//iam.googleapis.com/${providerName}`,
+    subject_token_type: "urn:ietf:params:oauth:token-type:jwt",
+    token_url: "https://sts.googleapis.com/v1/token",
+    credential_source: {
+      url: `${requestUrl}${separator}audience=${encodeURIComponent(audience)}`,
+      headers: { Authorization: `Bearer ${requestToken}` },
+      format: { type: "json", subject_token_field_name: "value" }
+    }
+  };
+  if (serviceAccount.trim()) {
+    credentials.service_account_impersonation_url = `https://iamcredentials.googleapis.com/v1/projects/-/serviceAccounts/${serviceAccount.trim()}:generateAccessToken`;
+  }
+  return credentials;
+}
+
+// Credentials from workload-identity-provider (keyless) or google-credentials
+export function resolveGoogleCredentials(
+  input: string,
+  provider: string,
+  serviceAccount: string,
+  env: NodeJS.ProcessEnv = process.env
+): GoogleCredentials {
+  if (provider && input) {
+    throw new Error("❌ Set either google-credentials or workload-identity-provider, not both");
+  }
+  if (provider) {
+    const credentials = workloadIdentityCredentials(provider, serviceAccount, env);
+    return validateGoogleCredentials({ ...credentials }, "workload-identity-provider");
+  }
+  if (!input) {
+    throw new Error(
+      "❌ Input required and not supplied: google-credentials (or workload-identity-provider)"
+    );
+  }
+  return parseGoogleCredentials(input);
+}
+
+// Values to mask in logs: the private key line by line (the runner masks single lines)
+export function credentialSecrets(credentials: GoogleCredentials): string[] {
+  const secrets = [credentials.private_key_id, credentials.private_key]
+    .filter((value): value is string => typeof value === "string" && value.length > 0)
+    .flatMap((value) => [value, ...value.split("\n")]);
+  return secrets.map((s) => s.trim()).filter((s) => s.length > 0 && !s.startsWith("-----"));
+}
+
+export function googleAuth(credentials: GoogleCredentials): GoogleAuth {
+  return new GoogleAuth({
+    credentials: credentials as CredentialBody | ExternalAccountClientOptions,
+    scopes: [SHEETS_SCOPE]
+  });
+}
@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+import * as os from "os";
+import { runSync } from "./run";
+import { RunHost } from "./types";
+
+// Every action.yml input can be passed as --<input> or SHEETS_SYNC_<INPUT> (e.g., SHEETS_SYNC_HEAD_TAG)
+export const INPUT_NAMES = [
+  "github-token",
+  "spreadsheet-id",
+  "google-credentials",
+  "workload-identity-provider",
+  "service-account",
+  "tracker",
+  "tracker-path",
+  "app",
+  "environment",
+  "config-file",
+  "version",
+  "sheet-name",
+  "archive-name",
+  "archive-timezone",
+  "archive-retention",
+  "archive-retention-action",
+  "archive-destination",
+  "base-tag",
+  "head-tag",
+  "tag-suffix",
+  "tag-scheme",
+  "jira-base-url",
+  "jira-api-url",
+  "jira-user",
+  "jira-token",
+  "jira-transitions",
+  "jira-comment-environments",
+  "jira-tickets",
+  "jira-project-keys",
+  "jira-ticket-pattern",
+  "ticket-sources",
+  "reverted-tickets",
+  "column-mapping",
+  "version-cells",
+  "row-per-app",
+  "environment-order",
+  "allow-downgrade",
+  "lock-timeout",
+  "lock-ttl",
+  "retry-attempts",
+  "audit-log-tab",
+  "release-notes",
+  "release-notes-file",
+  "release-notes-format",
+  "slack-webhook-url",
+  "teams-webhook-url",
+  "notify-environments",
+  "notify-template",
+  "dry-run"
+];
+
+// Flags that describe the run rather than an input
+const RUN_FLAGS = ["repo", "pr", "run-url", "help"];
+
+const FLAG_ALIASES: Record<string, string> = { env: "environment" };
+
+const ENV_PREFIX = "SHEETS_SYNC_";
+
+export const CLI_USAGE = `Usage: googlesheetsimport sync --repo <owner/repo> --env <environment> --app <app> [options]
+
+Run options:
+  --repo <owner/repo>    Repository to read tags and pull requests from (default: $GITHUB_REPOSITORY)
+  --pr <number>          Pull request to read tickets from when no tickets or tags are given
+  --run-url <url>        Link to the CI run, written to the audit log
+
+Inputs (same names as action.yml, or environment variables ${ENV_PREFIX}<NAME>):
+  ${INPUT_NAMES.map((name) => `--${name}`).join("\n  ")}
+
+--github-token defaults to $GITHUB_TOKEN. Boolean inputs can be given without a value (--dry-run).`;
+
+export interface CliArgs {
+  command: string;
+  flags: Record<string, string>;
+}
+
+// Parse "sync --env stage --head-tag=v1.2.0 --dry-run" into a command and flags
+export function parseCliArgs(argv: string[]): CliArgs {
+  const flags: Record<string, string> = {};
+  let command = "";
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      if (command) {
+        throw new Error(`❌ Unexpected argument: "${arg}"`);
+      }
+      command = arg;
+      continue;
+    }
+
+    const separator = arg.indexOf("=");
+    const rawName = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+    const name = FLAG_ALIASES[rawName] ?? rawName;
+    if (!INPUT_NAMES.includes(name) && !RUN_FLAGS.includes(name)) {
+      throw new Error(`❌ Unknown option: --${rawName}`);
+    }
+
+    if (separator !== -1) {
+      flags[name] = arg.slice(separator + 1);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      flags[name] = argv[++i];
+    } else {
+      flags[name] = "true";
+    }
+  }
+
+  return { command, flags };
+}
+
+// CLI host: inputs from flags, then environment variables; outputs are logged
+export function cliHost(flags: Record<string, string>, env = process.env): RunHost {
+  const repository = flags.repo || env.GITHUB_REPOSITORY || "";
+  const [owner, repo] = repository.split("/");
+  if (!owner || !repo) {
+    throw new Error("❌ --repo <owner/repo> is required (or set GITHUB_REPOSITORY)");
+  }
+
+  const prNumber = flags.pr ? Number(flags.pr) : null;
+  if (prNumber !== null && !Number.isInteger(prNumber)) {
+    throw new Error(`❌ Invalid --pr: "${flags.pr}". Must be a pull request number`);
+  }
+
+  const actor = env.USER || env.USERNAME || "cli";
+  return {
+    getInput: (name) => {
+      const envName = `${ENV_PREFIX}${name.toUpperCase().replace(/-/g, "_")}`;
+      const value =
+        flags[name] ?? env[envName] ?? (name === "github-token" ? env.GITHUB_TOKEN : "");
+      return (value ?? "").trim();
+    },
+    // Nothing to mask: secrets are never printed by the CLI
+    setSecret: () => undefined,
+    setOutputs: (outputs) => {
+      for (const [name, value] of Object.entries(outputs)) {
+        if (value) console.log(`📤 ${name}: ${value}`);
+      }
+    },
+    context: {
+      owner,
+      repo,
+      prNumber,
+      actor,
+      runName: `CLI (${actor}@${os.hostname()})`,
+      runUrl: flags["run-url"] || ""
+    }
+  };
+}
+
+async function main(): Promise<void> {
+  try {
+    const { command, flags } = parseCliArgs(process.argv.slice(2));
+    if (flags.help || command === "help" || !command) {
+      console.log(CLI_USAGE);
+      return;
+    }
+    if (command !== "sync") {
+      throw new Error(`❌ Unknown command: "${command}". Available: sync`);
+    }
+
+    await runSync(cliHost(flags));
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main();
+}
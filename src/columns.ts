@@ -0,0 +1,175 @@
+import { ColumnField, ColumnLayout, SheetLayout, VersionCellField } from "./types";
+
+export const REQUIRED_COLUMNS: ColumnField[] = [
+  "issue",
+  "status",
+  "assignee",
+  "environment",
+  "app"
+];
+export const OPTIONAL_COLUMNS: ColumnField[] = ["title", "pr", "type"];
+
+// Header names as they appear in the Template
+export const DEFAULT_COLUMN_HEADERS: Record<ColumnField, string> = {
+  issue: "Issue",
+  status: "Status",
+  assignee: "Assignee",
+  environment: "Environment",
+  app: "App",
+  title: "Title",
+  pr: "PR",
+  type: "Type"
+};
+
+// Version cells: "new-version" is written on every sync, "last-version" when a new cycle starts
+export const DEFAULT_VERSION_CELLS: Record<VersionCellField, string> = {
+  "new-version": "H2",
+  "last-version": "A2"
+};
+
+export const DEFAULT_SHEET_LAYOUT: SheetLayout = {
+  headers: DEFAULT_COLUMN_HEADERS,
+  versionCells: DEFAULT_VERSION_CELLS
+};
+
+const CELL_REF_PATTERN = /^[A-Z]{1,3}[1-9][0-9]*$/i;
+
+// Parse "key=value" pairs separated by commas or newlines
+function parseMapping(input: string, validKeys: string[], inputName: string): Map<string, string> {
+  const result = new Map<string, string>();
+
+  const entries = input
+    .split(/[,\n]/)
+    .map((e) => e.trim())
+    .filter((e) => e.length > 0);
+
+  for (const entry of entries) {
+    const separator = entry.indexOf("=");
+    const key = separator === -1 ? "" : entry.slice(0, separator).trim().toLowerCase();
+    const value = separator === -1 ? "" : entry.slice(separator + 1).trim();
+
+    if (!key || !value) {
+      throw new Error(`❌ Invalid ${inputName} entry: "${entry}". Expected format: key=value`);
+    }
+    if (!validKeys.includes(key)) {
+      throw new Error(
+        `❌ Unknown ${inputName} key: "${key}". Must be one of: ${validKeys.join(", ")}`
+      );
+    }
+    result.set(key, value);
+  }
+
+  return result;
+}
+
+// Parse the column-mapping input (e.g., "issue=Ticket, environment=Env") on top of the defaults
+export function parseColumnMapping(input: string): Record<ColumnField, string> {
+  const fields = [...REQUIRED_COLUMNS, ...OPTIONAL_COLUMNS];
+  const overrides = parseMapping(input, fields, "column-mapping");
+  const headers = { ...DEFAULT_COLUMN_HEADERS };
+  for (const [field, header] of overrides) {
+    headers[field as ColumnField] = header;
+  }
+  return headers;
+}
+
+// Parse the version-cells input (e.g., "new-version=New version, last-version=LastVersion")
+// Values can be A1 cells, named ranges, or labels of the cell directly above the value
+export function parseVersionCells(input: string): Record<VersionCellField, string> {
+  const fields = Object.keys(DEFAULT_VERSION_CELLS);
+  const overrides = parseMapping(input, fields, "version-cells");
+  const cells = { ...DEFAULT_VERSION_CELLS };
+  for (const [field, spec] of overrides) {
+    cells[field as VersionCellField] = spec;
+  }
+  return cells;
+}
+
+// Convert a zero-based column index to a column letter (0 → A, 26 → AA)
+export function columnLetter(index: number): string {
+  let letter = "";
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
+
+export function isCellReference(value: string): boolean {
+  return CELL_REF_PATTERN.test(value.trim());
+}
+
+// Parse an A1 cell ("H2") into a 1-based row and zero-based column
+export function parseCell(cell: string): { row: number; column: number } {
+  const match = cell.match(/^([A-Z]+)(\d+)$/i)!;
+  const column = match[1]
+    .toUpperCase()
+    .split("")
+    .reduce((acc, ch) => acc * 26 + (ch.charCodeAt(0) - 64), 0);
+  return { row: parseInt(match[2]), column: column - 1 };
+}
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? "")
+    .trim()
+    .toLowerCase();
+}
+
+// Locate the header row (the first row containing the Issue header) and map each field to a column
+export function findColumns(
+  rows: unknown[][],
+  headers: Record<ColumnField, string> = DEFAULT_COLUMN_HEADERS
+): ColumnLayout {
+  const issueHeader = normalizeHeader(headers.issue);
+  const headerRowIndex = rows.findIndex((row) =>
+    (row ?? []).some((cell) => normalizeHeader(cell) === issueHeader)
+  );
+
+  if (headerRowIndex === -1) {
+    throw new Error(
+      `❌ Sheet schema error: could not find a header row containing "${headers.issue}"`
+    );
+  }
+
+  const headerRow = rows[headerRowIndex] ?? [];
+  const columns: Partial<Record<ColumnField, number>> = {};
+
+  for (const field of [...REQUIRED_COLUMNS, ...OPTIONAL_COLUMNS]) {
+    const index = headerRow.findIndex(
+      (cell) => normalizeHeader(cell) === normalizeHeader(headers[field])
+    );
+    if (index !== -1) {
+      columns[field] = index;
+    }
+  }
+
+  const missing = REQUIRED_COLUMNS.filter((field) => columns[field] === undefined);
+  if (missing.length > 0) {
+    const found = headerRow.map((cell) => String(cell ?? "")).filter((cell) => cell !== "");
+    throw new Error(
+      `❌ Sheet schema error: missing required column(s) ${missing
+        .map((field) => `"${headers[field]}"`)
+        .join(", ")} in header row ${headerRowIndex + 1}. Found: ${found.join(", ")}`
+    );
+  }
+
+  return { headerRowIndex, columns: columns as ColumnLayout["columns"] };
+}
+
+// Find a label in the rows above the header and return the A1 cell directly below it
+export function findLabelCell(
+  rows: unknown[][],
+  label: string,
+  maxRows = rows.length
+): string | null {
+  const target = normalizeHeader(label);
+  for (let r = 0; r < Math.min(maxRows, rows.length); r++) {
+    const c = (rows[r] ?? []).findIndex((cell) => normalizeHeader(cell) === target);
+    if (c !== -1) {
+      return `${columnLetter(c)}${r + 2}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,197 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import { parse } from "yaml";
+import { ActionConfig, AppConfig, EnvironmentConfig } from "./types";
+
+export const DEFAULT_CONFIG_PATH = ".github/sheets-sync.yml";
+
+// Apps and environments used when the repository has no config file
+export const DEFAULT_CONFIG: ActionConfig = {
+  apps: [
+    { name: "web", label: "Web" },
+    { name: "admin", label: "Admin" },
+    { name: "cm", label: "CM" }
+  ],
+  environments: [
+    {
+      name: "internal",
+      label: "Internal",
+      aliases: ["internaltest", "int"],
+      tagSuffix: "",
+      archive: false
+    },
+    { name: "stage", label: "Stage", aliases: [], tagSuffix: "", archive: false },
+    { name: "production", label: "Production", aliases: ["prod"], tagSuffix: "", archive: true }
+  ]
+};
+
+const APP_KEYS = ["name", "label"];
+const ENVIRONMENT_KEYS = ["name", "label", "aliases", "tag-suffix", "archive"];
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Validate a list entry's keys and return its name and optional label
+function parseNamedEntry(
+  entry: unknown,
+  path: string,
+  allowedKeys: string[],
+  fail: (message: string) => never
+): { name: string; label: string } {
+  if (!isRecord(entry)) {
+    fail(`${path} must be a mapping with at least a "name"`);
+  }
+  const unknownKeys = Object.keys(entry).filter((k) => !allowedKeys.includes(k));
+  if (unknownKeys.length > 0) {
+    fail(`${path} has unknown key(s): ${unknownKeys.join(", ")}`);
+  }
+  if (typeof entry.name !== "string" || entry.name.trim() === "") {
+    fail(`${path}.name must be a non-empty string`);
+  }
+  if (entry.label !== undefined && typeof entry.label !== "string") {
+    fail(`${path}.label must be a string`);
+  }
+  const name = entry.name.trim().toLowerCase();
+  return { name, label: (entry.label as string | undefined)?.trim() || capitalize(name) };
+}
+
+// Parse and validate a config file's contents
+// Environments are listed from earliest to latest; that order is the promotion order
+export function parseConfig(text: string, source: string): ActionConfig {
+  const fail = (message: string): never => {
+    throw new Error(`❌ Invalid config file ${source}: ${message}`);
+  };
+
+  let raw: unknown;
+  try {
+    raw = parse(text);
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  if (!isRecord(raw)) {
+    fail('expected a mapping with "apps" and "environments"');
+  }
+  const config = raw as Record<string, unknown>;
+  const unknownKeys = Object.keys(config).filter((k) => k !== "apps" && k !== "environments");
+  if (unknownKeys.length > 0) {
+    fail(`unknown key(s): ${unknownKeys.join(", ")}`);
+  }
+
+  // Apps
+  if (!Array.isArray(config.apps) || config.apps.length === 0) {
+    fail('"apps" must be a non-empty list');
+  }
+  const apps: AppConfig[] = (config.apps as unknown[]).map((entry, i) =>
+    parseNamedEntry(entry, `apps[${i}]`, APP_KEYS, fail)
+  );
+  const duplicateApp = apps.find((a, i) => apps.findIndex((b) => b.name === a.name) !== i);
+  if (duplicateApp) {
+    fail(`app "${duplicateApp.name}" is declared more than once`);
+  }
+
+  // Environments
+  if (!Array.isArray(config.environments) || config.environments.length === 0) {
+    fail('"environments" must be a non-empty list');
+  }
+  const seenNames = new Map<string, string>();
+  const environments: EnvironmentConfig[] = (config.environments as unknown[]).map((entry, i) => {
+    const path = `environments[${i}]`;
+    const { name, label } = parseNamedEntry(entry, path, ENVIRONMENT_KEYS, fail);
+    const fields = entry as Record<string, unknown>;
+
+    const aliases = fields.aliases ?? [];
+    if (!Array.isArray(aliases) || aliases.some((a) => typeof a !== "string" || !a.trim())) {
+      fail(`${path}.aliases must be a list of non-empty strings`);
+    }
+    const tagSuffix = fields["tag-suffix"] ?? "";
+    if (typeof tagSuffix !== "string") {
+      fail(`${path}.tag-suffix must be a string`);
+    }
+    const archive = fields.archive ?? false;
+    if (typeof archive !== "boolean") {
+      fail(`${path}.archive must be true or false`);
+    }
+
+    const normalizedAliases = (aliases as string[]).map((a) => a.trim().toLowerCase());
+    for (const alias of [name, ...normalizedAliases]) {
+      const owner = seenNames.get(alias);
+      if (owner) {
+        fail(`"${alias}" in ${path} is already used by environment "${owner}"`);
+      }
+      seenNames.set(alias, name);
+    }
+
+    return {
+      name,
+      label,
+      aliases: normalizedAliases.filter((a) => a !== name),
+      tagSuffix: (tagSuffix as string).trim(),
+      archive: archive as boolean
+    };
+  });
+
+  // The environment that closes the cycle: the one marked archive, or the last one
+  const archiving = environments.filter((e) => e.archive);
+  if (archiving.length > 1) {
+    fail(`only one environment can set archive (${archiving.map((e) => e.name).join(", ")})`);
+  }
+  if (archiving.length === 0) {
+    environments[environments.length - 1].archive = true;
+  }
+
+  return { apps, environments };
+}
+
+// Load the config file, falling back to the defaults when the default path does not exist
+export function loadConfig(configPath: string): ActionConfig {
+  const path = configPath.trim() || DEFAULT_CONFIG_PATH;
+
+  if (!fs.existsSync(path)) {
+    if (configPath.trim()) {
+      throw new Error(`❌ Config file not found: ${path}`);
+    }
+    return DEFAULT_CONFIG;
+  }
+
+  const config = parseConfig(fs.readFileSync(path, "utf8"), path);
+  core.info(
+    `⚙️ Loaded ${path}: apps ${config.apps.map((a) => a.name).join(", ")}; environments ${config.environments.map((e) => e.name).join(", ")}`
+  );
+  return config;
+}
+
+// Find an environment by name or alias (case-insensitive)
+export function findEnvironment(
+  config: ActionConfig,
+  nameOrAlias: string
+): EnvironmentConfig | undefined {
+  const value = nameOrAlias.trim().toLowerCase();
+  return config.environments.find((e) => e.name === value || e.aliases.includes(value));
+}
+
+// The environment whose deploys archive the sheet and start a new cycle
+export function archiveEnvironment(config: ActionConfig): string {
+  const { environments } = config;
+  return (environments.find((e) => e.archive) ?? environments[environments.length - 1]).name;
+}
+
+// All accepted environment inputs, for error messages
+export function environmentChoices(config: ActionConfig): string[] {
+  return config.environments.flatMap((e) => [e.name, ...e.aliases]);
+}
+
+// Label written to the sheet for an environment (name or alias), or the input when unknown
+export function environmentLabel(config: ActionConfig, env: string): string {
+  return findEnvironment(config, env)?.label ?? env;
+}
+
+// Label written to the sheet for an app, or the input when unknown
+export function appLabel(config: ActionConfig, app: string): string {
+  return config.apps.find((a) => a.name === app.trim().toLowerCase())?.label ?? app;
+}
@@ -0,0 +1,374 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+import ExcelJS from "exceljs";
+import { AUDIT_LOG_HEADERS } from "./audit";
+import { parseCell } from "./columns";
+import { getUniqueTabName, TEMPLATE_COPY, TEMPLATE_SHEET } from "./sheets";
+import { CellUpdate, SheetTab, TrackerBackend, TrackerLock, VersionCellValue } from "./types";
+
+// File trackers live in the run's own checkout, so there is nothing to lock
+const FILE_LOCK: TrackerLock = {
+  renew: async () => undefined,
+  release: async () => undefined
+};
+
+// --- CSV ---
+
+// Parse RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  // Last line without a line break
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function formatCsv(rows: unknown[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text = String(value ?? "");
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",")
+    )
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+// Apply cell updates to rows in memory, growing the grid as needed
+function setCells(rows: unknown[][], cells: CellUpdate[]): void {
+  for (const { row, column, value } of cells) {
+    while (rows.length < row) rows.push([]);
+    const target = rows[row - 1];
+    while (target.length < column) target.push("");
+    target[column] = value;
+  }
+}
+
+// A directory with one CSV file per tab (Next.csv, Template.csv, 2026-02-16.csv, ...)
+export function csvTracker(dir: string): TrackerBackend {
+  const tabFile = (tab: string) => path.join(dir, `${tab}.csv`);
+
+  function requireDir(): void {
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      throw new Error(`❌ Tracker directory not found: ${dir}`);
+    }
+  }
+
+  function readTab(tab: string): string[][] {
+    if (!fs.existsSync(tabFile(tab))) {
+      throw new Error(`❌ Tab "${tab}" not found: ${tabFile(tab)}`);
+    }
+    return parseCsv(fs.readFileSync(tabFile(tab), "utf8"));
+  }
+
+  function writeTab(tab: string, rows: unknown[][]): void {
+    fs.writeFileSync(tabFile(tab), formatCsv(rows));
+  }
+
+  // New tab copied from another one, with the version cell set
+  function copyTab(from: string, to: string, lastVersion: VersionCellValue | null): void {
+    const rows = readTab(from);
+    if (lastVersion) {
+      setCells(rows, [{ ...parseCell(lastVersion.cell), value: lastVersion.value }]);
+    }
+    writeTab(to, rows);
+  }
+
+  return {
+    location: dir,
+    // Files have no order; tabs are listed by name
+    listTabs: async () => {
+      requireDir();
+      return fs
+        .readdirSync(dir)
+        .filter((name) => name.toLowerCase().endsWith(".csv"))
+        .map((name) => name.slice(0, -".csv".length))
+        .sort()
+        .map((title, index) => ({ sheetId: index, title, index }));
+    },
+    readRows: async (tab) => readTab(tab),
+    findNamedCell: async () => null,
+    writeCells: async (tab, cells) => {
+      const rows = readTab(tab);
+      setCells(rows, cells);
+      writeTab(tab, rows);
+      core.info(`💾 Wrote ${cells.length} cells to ${tabFile(tab)}`);
+    },
+    archiveCycle: async (sheetName, archiveName, lastVersion) => {
+      if (fs.existsSync(tabFile(archiveName))) {
+        throw new Error(`❌ Tab "${archiveName}" already exists: ${tabFile(archiveName)}`);
+      }
+      // The new tab is written first, so an interrupted archive leaves the copy to restore from
+      copyTab(TEMPLATE_SHEET, TEMPLATE_COPY, lastVersion);
+      fs.renameSync(tabFile(sheetName), tabFile(archiveName));
+      fs.renameSync(tabFile(TEMPLATE_COPY), tabFile(sheetName));
+    },
+    restoreCycle: async (sheetName, repair, lastVersion) => {
+      copyTab(repair.templateCopy.title, sheetName, lastVersion);
+      fs.unlinkSync(tabFile(repair.templateCopy.title));
+    },
+    // Moved tabs are copied into the destination directory, keeping their names unique there
+    retireTabs: async (tabs, retention) => {
+      if (retention.action === "hide") {
+        throw new Error("❌ The csv tracker cannot hide tabs");
+      }
+      const destination = retention.destination;
+      if (retention.action === "move") {
+        fs.mkdirSync(destination, { recursive: true });
+      }
+      for (const tab of tabs) {
+        if (retention.action === "move") {
+          const names = fs
+            .readdirSync(destination)
+            .filter((name) => name.toLowerCase().endsWith(".csv"))
+            .map((name) => name.slice(0, -".csv".length));
+          const title = getUniqueTabName(tab, names);
+          fs.copyFileSync(tabFile(tab), path.join(destination, `${title}.csv`));
+        }
+        fs.unlinkSync(tabFile(tab));
+      }
+    },
+    appendAuditRows: async (tab, rows) => {
+      if (rows.length === 0) {
+        return;
+      }
+      const created = !fs.existsSync(tabFile(tab));
+      fs.appendFileSync(tabFile(tab), formatCsv(created ? [AUDIT_LOG_HEADERS, ...rows] : rows));
+      core.info(`📒 Logged ${rows.length} row(s) to "${tab}"`);
+    },
+    // Local files are only written by this run
+    lock: async () => FILE_LOCK
+  };
+}
+
+// --- XLSX ---
+
+// Cell value as the sheet shows it: formula results, hyperlink and rich text display text.
+// Formulas without a cached result (e.g., written by this backend) are read as "=FORMULA".
+export function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== "object") {
+    return String(value);
+  }
+  if ("formula" in value || "sharedFormula" in value) {
+    return value.result !== undefined && value.result !== null
+      ? cellText(value.result as ExcelJS.CellValue)
+      : `=${"formula" in value ? value.formula : value.sharedFormula}`;
+  }
+  if ("richText" in value) {
+    return value.richText.map((part) => part.text).join("");
+  }
+  if ("text" in value) {
+    return cellText(value.text as ExcelJS.CellValue);
+  }
+  if ("error" in value) {
+    return value.error;
+  }
+  return "";
+}
+
+// Values starting with "=" are written as formulas, like USER_ENTERED in Google Sheets
+function toCellValue(value: string): ExcelJS.CellValue {
+  return value.startsWith("=") ? { formula: value.slice(1), date1904: false } : value;
+}
+
+function worksheetRows(worksheet: ExcelJS.Worksheet): string[][] {
+  const rows: string[][] = [];
+  for (let r = 1; r <= worksheet.rowCount; r++) {
+    const row = worksheet.getRow(r);
+    const values: string[] = [];
+    for (let c = 1; c <= row.cellCount; c++) {
+      values.push(cellText(row.getCell(c).value));
+    }
+    rows.push(values);
+  }
+
+  // Pre-formatted rows below the data count as empty, as in Google Sheets
+  while (rows.length > 0 && rows[rows.length - 1].every((v) => v === "")) {
+    rows.pop();
+  }
+  return rows;
+}
+
+// exceljs sorts worksheets by orderNo, which its typings leave out
+type OrderedWorksheet = ExcelJS.Worksheet & { orderNo: number };
+
+// Copy a worksheet (into the same or another workbook) with its formatting, column widths,
+// merges and dropdowns
+function copyWorksheetModel(
+  source: ExcelJS.Worksheet,
+  book: ExcelJS.Workbook,
+  name: string
+): ExcelJS.Worksheet {
+  const copy = book.addWorksheet(name);
+  copy.model = { ...structuredClone(source.model), id: copy.id, name };
+  return copy;
+}
+
+// An Excel workbook with one worksheet per tab; formatting and dropdowns are kept
+export function xlsxTracker(file: string): TrackerBackend {
+  let workbook: ExcelJS.Workbook | null = null;
+
+  async function load(): Promise<ExcelJS.Workbook> {
+    if (!workbook) {
+      if (!fs.existsSync(file)) {
+        throw new Error(`❌ Tracker file not found: ${file}`);
+      }
+      workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.readFile(file);
+    }
+    return workbook;
+  }
+
+  async function worksheet(tab: string): Promise<ExcelJS.Worksheet> {
+    const sheet = (await load()).getWorksheet(tab);
+    if (!sheet) {
+      throw new Error(`❌ Tab "${tab}" not found in ${file}`);
+    }
+    return sheet;
+  }
+
+  async function save(): Promise<void> {
+    await (await load()).xlsx.writeFile(file);
+  }
+
+  function setVersionCell(sheet: ExcelJS.Worksheet, lastVersion: VersionCellValue | null): void {
+    if (lastVersion) {
+      sheet.getCell(lastVersion.cell).value = toCellValue(lastVersion.value);
+    }
+  }
+
+  // Move a worksheet in front of every other one
+  function moveToFirst(book: ExcelJS.Workbook, sheet: ExcelJS.Worksheet): void {
+    const ordered = (w: ExcelJS.Worksheet) => w as OrderedWorksheet;
+    ordered(sheet).orderNo = Math.min(...book.worksheets.map((w) => ordered(w).orderNo)) - 1;
+  }
+
+  async function copyWorksheet(from: string, to: string): Promise<ExcelJS.Worksheet> {
+    return copyWorksheetModel(await worksheet(from), await load(), to);
+  }
+
+  return {
+    location: file,
+    listTabs: async () =>
+      (await load()).worksheets.map(
+        (sheet, index): SheetTab => ({
+          sheetId: sheet.id,
+          title: sheet.name,
+          index,
+          hidden: sheet.state !== "visible"
+        })
+      ),
+    readRows: async (tab) => worksheetRows(await worksheet(tab)),
+    findNamedCell: async () => null,
+    writeCells: async (tab, cells) => {
+      const sheet = await worksheet(tab);
+      for (const { row, column, value } of cells) {
+        sheet.getCell(row, column + 1).value = toCellValue(value);
+      }
+      await save();
+      core.info(`💾 Wrote ${cells.length} cells to "${tab}" in ${file}`);
+    },
+    archiveCycle: async (sheetName, archiveName, lastVersion) => {
+      const book = await load();
+      (await worksheet(sheetName)).name = archiveName;
+      const next = await copyWorksheet(TEMPLATE_SHEET, sheetName);
+      moveToFirst(book, next);
+      setVersionCell(next, lastVersion);
+      await save();
+    },
+    restoreCycle: async (sheetName, repair, lastVersion) => {
+      const book = await load();
+      const next = await worksheet(repair.templateCopy.title);
+      next.name = sheetName;
+      moveToFirst(book, next);
+      setVersionCell(next, lastVersion);
+      await save();
+    },
+    // Moved tabs are copied into the destination workbook (created when missing)
+    retireTabs: async (tabs, retention) => {
+      const book = await load();
+      if (retention.action === "move") {
+        const target = new ExcelJS.Workbook();
+        if (fs.existsSync(retention.destination)) {
+          await target.xlsx.readFile(retention.destination);
+        }
+        const names = target.worksheets.map((w) => w.name);
+        for (const tab of tabs) {
+          const title = getUniqueTabName(tab, names);
+          names.push(title);
+          copyWorksheetModel(await worksheet(tab), target, title);
+        }
+        await target.xlsx.writeFile(retention.destination);
+      }
+      for (const tab of tabs) {
+        const sheet = await worksheet(tab);
+        if (retention.action === "hide") {
+          sheet.state = "hidden";
+        } else {
+          book.removeWorksheet(sheet.id);
+        }
+      }
+      await save();
+    },
+    appendAuditRows: async (tab, rows) => {
+      if (rows.length === 0) {
+        return;
+      }
+      const book = await load();
+      let sheet = book.getWorksheet(tab);
+      if (!sheet) {
+        sheet = book.addWorksheet(tab);
+        sheet.addRow(AUDIT_LOG_HEADERS);
+        core.info(`📒 Created audit log tab "${tab}"`);
+      }
+      sheet.addRows(rows);
+      await save();
+      core.info(`📒 Logged ${rows.length} row(s) to "${tab}"`);
+    },
+    // Local files are only written by this run
+    lock: async () => FILE_LOCK
+  };
+}
@@ -1,10 +1,25 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
-import { PRInfo } from "./types";
+import { withRetry } from "./retry";
+import { findRevertedCommits } from "./reverts";
+import { DEFAULT_TICKET_PATTERN, isTicketKey } from "./tickets";
+import {
+  PRInfo,
+  PRInfoOptions,
+  PRInfoResult,
+  RetryOptions,
+  RevertedTickets,
+  TagScheme,
+  TicketSource
+} from "./types";
+import { compareSortKeys, sortTagsDescending, tagSortKey } from "./versions";
 
 // Extract all Jira tickets from text
-export function extractAllJiraTickets(text: string): string[] {
-  const matches = text.match(/ADV-\d+/gi);
+export function extractAllJiraTickets(
+  text: string,
+  ticketPattern: RegExp = DEFAULT_TICKET_PATTERN
+): string[] {
+  const matches = text.match(new RegExp(ticketPattern.source, "gi"));
   if (!matches) return [];
   return [...new Set(matches.map((m) => m.toUpperCase()))];
 }
@@ -13,13 +28,20 @@ export function extractAllJiraTickets(text: string): string[] {
 export function fromExplicitTickets(
   jiraTicketsInput: string,
   app: string,
-  environment: string
+  environment: string,
+  ticketPattern: RegExp = DEFAULT_TICKET_PATTERN
 ): PRInfo[] {
-  const tickets = jiraTicketsInput
+  const entries = jiraTicketsInput
     .split(",")
     .map((t) => t.trim().toUpperCase())
     .filter((t) => t.length > 0);
 
+  const tickets = entries.filter((t) => isTicketKey(t, ticketPattern));
+  const ignored = entries.filter((t) => !tickets.includes(t));
+  if (ignored.length > 0) {
+    core.warning(`⚠️ Ignoring entries that are not Jira tickets: ${ignored.join(", ")}`);
+  }
+
   core.info(`📋 Using explicit tickets: ${tickets.join(", ")}`);
 
   return tickets.map((ticket) => ({
@@ -32,66 +54,271 @@ export function fromExplicitTickets(
   }));
 }
 
+type Octokit = ReturnType<typeof github.getOctokit>;
+type ComparisonCommit = Awaited<
+  ReturnType<Octokit["rest"]["repos"]["compareCommits"]>
+>["data"]["commits"][number];
+
+type AssociatedPR = Awaited<
+  ReturnType<Octokit["rest"]["repos"]["listPullRequestsAssociatedWithCommit"]>
+>["data"][number];
+type PullRequest = Pick<
+  Awaited<ReturnType<Octokit["rest"]["pulls"]["get"]>>["data"],
+  "number" | "title" | "body"
+> & { head: { ref: string } };
+
+const COMPARE_PAGE_SIZE = 100;
+
+// Upper bound on ancestry checks, each costing one compare request
+const MAX_ANCESTRY_CHECKS = 20;
+
+// Commit → PR lookups cost one request per commit; they are capped and run a few at a time
+const MAX_PR_LOOKUPS = 300;
+const PR_LOOKUP_CONCURRENCY = 5;
+
 // Find the previous tag matching a suffix pattern (e.g., *-int, *-stage, *-prod)
 // Mimics: git describe --tags --abbrev=0 --match "*-{suffix}"
-async function findPreviousTag(
-  octokit: ReturnType<typeof github.getOctokit>,
+// Scans every tag, orders them by the tag scheme and returns the newest tag that is older than
+// the head tag and an ancestor of it
+export async function findPreviousTag(
+  octokit: Octokit,
   owner: string,
   repo: string,
   suffix: string,
-  excludeTag: string
+  headTag: string,
+  scheme: TagScheme
 ): Promise<string | null> {
-  core.info(`🔍 Looking for previous tag matching *-${suffix} (excluding ${excludeTag})...`);
+  core.info(
+    `🔍 Looking for previous tag matching *-${suffix} (before ${headTag}, ${scheme} order)...`
+  );
 
   try {
-    // List tags sorted by creation date (newest first), paginated
-    const tags: Array<{ name: string; commitSha: string }> = [];
-    let page = 1;
-    const perPage = 100;
-
-    // Fetch up to 300 tags to find a match
-    while (page <= 3) {
-      const { data: refs } = await octokit.rest.git.listMatchingRefs({
+    // List all tags
+    const refs = await octokit.paginate(octokit.rest.git.listMatchingRefs, {
+      owner,
+      repo,
+      ref: "tags/",
+      per_page: 100
+    });
+    const tagNames = refs.map((ref) => ref.ref.replace("refs/tags/", ""));
+    core.info(`🏷️ Scanned ${tagNames.length} tags`);
+
+    // Filter tags that end with the suffix and are not the current tag, newest first
+    const suffixPattern = `-${suffix}`;
+    const matching = tagNames.filter((name) => name.endsWith(suffixPattern) && name !== headTag);
+    const sorted = sortTagsDescending(matching, scheme, suffix);
+    if (sorted.length < matching.length) {
+      core.info(
+        `ℹ️ Ignoring ${matching.length - sorted.length} tag(s) not following ${scheme} order`
+      );
+    }
+
+    // Only consider tags older than the head tag (when the head tag follows the scheme)
+    const headKey = tagSortKey(headTag, scheme, suffix);
+    const candidates = headKey
+      ? sorted.filter((name) => compareSortKeys(tagSortKey(name, scheme, suffix)!, headKey) < 0)
+      : sorted;
+
+    if (candidates.length === 0) {
+      core.info(`ℹ️ No previous tags found matching *-${suffix}`);
+      return null;
+    }
+
+    // Pick the nearest candidate the head tag builds on
+    for (const candidate of candidates.slice(0, MAX_ANCESTRY_CHECKS)) {
+      const { data } = await octokit.rest.repos.compareCommits({
         owner,
         repo,
-        ref: `tags/`,
-        per_page: perPage,
-        page
+        base: candidate,
+        head: headTag,
+        per_page: 1
       });
+      if (data.status === "ahead" || data.status === "identical") {
+        core.info(`✅ Found previous tag: ${candidate}`);
+        return candidate;
+      }
+      core.info(`ℹ️ Skipping ${candidate}: not an ancestor of ${headTag} (${data.status})`);
+    }
 
-      if (refs.length === 0) break;
+    core.warning(
+      `⚠️ None of the ${Math.min(candidates.length, MAX_ANCESTRY_CHECKS)} newest tags matching *-${suffix} is an ancestor of ${headTag}`
+    );
+    return null;
+  } catch (error) {
+    core.warning(`⚠️ Could not search for previous tags: ${(error as Error).message}`);
+    return null;
+  }
+}
 
-      for (const ref of refs) {
-        const tagName = ref.ref.replace("refs/tags/", "");
-        tags.push({ name: tagName, commitSha: ref.object.sha });
+// List every commit between two refs. The compare endpoint returns at most 250 commits per
+// response, so it is paged; if paging still falls short of total_commits, the head's history is
+// walked down to the merge base. Throws rather than returning an incomplete list.
+export async function listComparisonCommits(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<ComparisonCommit[]> {
+  const commits = new Map<string, ComparisonCommit>();
+  let total = 0;
+  let mergeBaseSha = "";
+
+  for (let page = 1; ; page++) {
+    const { data } = await octokit.rest.repos.compareCommits({
+      owner,
+      repo,
+      base,
+      head,
+      per_page: COMPARE_PAGE_SIZE,
+      page
+    });
+
+    total = data.total_commits;
+    mergeBaseSha = data.merge_base_commit.sha;
+    for (const commit of data.commits) {
+      commits.set(commit.sha, commit);
+    }
+
+    if (data.commits.length < COMPARE_PAGE_SIZE || commits.size >= total) break;
+  }
+
+  // Fallback: walk the head's history down to the merge base
+  if (commits.size < total) {
+    core.warning(
+      `⚠️ Comparison returned ${commits.size} of ${total} commits. Listing commits from ${head} instead...`
+    );
+    const { data: headCommit } = await octokit.rest.repos.getCommit({ owner, repo, ref: head });
+
+    for (let page = 1; commits.size < total; page++) {
+      const { data } = await octokit.rest.repos.listCommits({
+        owner,
+        repo,
+        sha: headCommit.sha,
+        per_page: COMPARE_PAGE_SIZE,
+        page
+      });
+      const reachedBase = data.findIndex((c) => c.sha === mergeBaseSha);
+      for (const commit of reachedBase === -1 ? data : data.slice(0, reachedBase)) {
+        commits.set(commit.sha, commit);
       }
+      if (reachedBase !== -1 || data.length < COMPARE_PAGE_SIZE) break;
+    }
+  }
+
+  if (commits.size < total) {
+    throw new Error(
+      `❌ Could only list ${commits.size} of ${total} commits between ${base} and ${head}. Refusing to sync an incomplete ticket list.`
+    );
+  }
+
+  return Array.from(commits.values());
+}
 
-      if (refs.length < perPage) break;
-      page++;
+// Run an async function over items with at most `limit` calls in flight, keeping result order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
 
-    // Filter tags that end with the suffix and are not the current tag
-    const suffixPattern = `-${suffix}`;
-    const matchingTags = tags
-      .filter((t) => t.name.endsWith(suffixPattern) && t.name !== excludeTag)
-      .sort((a, b) => b.name.localeCompare(a.name)); // Sort descending (newest version first)
+// Map commits to the merged PRs they belong to, using the "pull requests associated with a
+// commit" endpoint. Works for merge, squash and rebase merges alike. Each PR is returned once,
+// in the order of the first commit that belongs to it.
+export async function findMergedPRs(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  shas: string[]
+): Promise<AssociatedPR[]> {
+  const lookups = shas.slice(0, MAX_PR_LOOKUPS);
+  if (shas.length > lookups.length) {
+    core.warning(
+      `⚠️ Looking up PRs for the first ${MAX_PR_LOOKUPS} of ${shas.length} commits only. Tickets in the remaining commit messages are still found.`
+    );
+  }
 
-    if (matchingTags.length === 0) {
-      core.info(`ℹ️ No previous tags found matching *-${suffix}`);
-      return null;
+  const prsPerCommit = await mapWithConcurrency(lookups, PR_LOOKUP_CONCURRENCY, async (sha) => {
+    try {
+      const { data } = await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+        owner,
+        repo,
+        commit_sha: sha
+      });
+      return data.filter((pr) => pr.merged_at);
+    } catch (error) {
+      core.warning(
+        `⚠️ Could not look up PRs for commit ${sha.slice(0, 7)}: ${(error as Error).message}`
+      );
+      return [];
     }
+  });
 
-    const previousTag = matchingTags[0].name;
-    core.info(`✅ Found previous tag: ${previousTag}`);
-    return previousTag;
-  } catch (error) {
-    core.warning(`⚠️ Could not search for previous tags: ${(error as Error).message}`);
-    return null;
+  const prs = new Map<number, AssociatedPR>();
+  for (const pr of prsPerCommit.flat()) {
+    if (!prs.has(pr.number)) prs.set(pr.number, pr);
+  }
+  return Array.from(prs.values());
+}
+
+// Find tickets in the configured parts of a PR (title, body, head branch name, PR commits)
+// Returns each ticket once, with every source it was found in
+export async function extractPRTickets(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  sources: TicketSource[],
+  ticketPattern: RegExp
+): Promise<Map<string, TicketSource[]>> {
+  const found = new Map<string, TicketSource[]>();
+  const add = (source: TicketSource, text: string) => {
+    for (const ticket of extractAllJiraTickets(text, ticketPattern)) {
+      const ticketSources = found.get(ticket) ?? [];
+      if (!ticketSources.includes(source)) ticketSources.push(source);
+      found.set(ticket, ticketSources);
+    }
+  };
+
+  if (sources.includes("title")) add("title", pr.title);
+  if (sources.includes("body")) add("body", pr.body ?? "");
+  if (sources.includes("branch")) add("branch", pr.head.ref);
+  if (sources.includes("commits")) {
+    try {
+      const commits = await octokit.paginate(octokit.rest.pulls.listCommits, {
+        owner,
+        repo,
+        pull_number: pr.number,
+        per_page: 100
+      });
+      for (const commit of commits) {
+        add("commits", commit.commit.message);
+      }
+    } catch (error) {
+      core.warning(`⚠️ Could not list commits of PR #${pr.number}: ${(error as Error).message}`);
+    }
   }
+
+  for (const [ticket, ticketSources] of found) {
+    core.info(`🎫 PR #${pr.number}: ${ticket} (found in ${ticketSources.join(", ")})`);
+  }
+  return found;
 }
 
 // Option 2: Compare between two tags
-// Extracts Jira tickets from both PR titles AND commit messages
+// Extracts Jira tickets from commit messages AND the merged PRs (see ticket sources)
+// Tickets whose changes were all reverted within the range are marked or skipped
 async function fromTagComparison(
   octokit: ReturnType<typeof github.getOctokit>,
   owner: string,
@@ -99,37 +326,41 @@ async function fromTagComparison(
   baseTag: string,
   headTag: string,
   app: string,
-  environment: string
+  environment: string,
+  ticketPattern: RegExp,
+  ticketSources: TicketSource[],
+  revertedTickets: RevertedTickets
 ): Promise<PRInfo[]> {
   core.info(`🔍 Comparing ${baseTag}...${headTag}`);
 
-  // Get commits between tags
-  const { data: comparison } = await octokit.rest.repos.compareCommits({
-    owner,
-    repo,
-    base: baseTag,
-    head: headTag || "HEAD"
-  });
+  // Get all commits between tags
+  const commits = await listComparisonCommits(octokit, owner, repo, baseTag, headTag || "HEAD");
 
-  core.info(`📝 Found ${comparison.commits.length} commits between tags`);
+  core.info(`📝 Found ${commits.length} commits between tags`);
 
-  // Warn if the comparison might be truncated (GitHub API caps at 250 commits)
-  if (comparison.commits.length >= 250) {
-    core.warning(
-      `⚠️ GitHub returned ${comparison.commits.length} commits which may be truncated. Some Jira tickets might be missing.`
+  // Net revert commits against the changes they undo
+  const { netted, reverting } = findRevertedCommits(commits);
+  const isReverted = (sha: string) => netted.has(sha) || reverting.has(sha);
+  if (netted.size + reverting.size > 0) {
+    core.info(
+      `↩️ Found ${netted.size} commits cancelled out by reverts and ${reverting.size} reverts of earlier changes`
     );
   }
 
   // Collect all Jira tickets from commit messages directly
+  // Tickets from reverted (or reverting) changes are kept apart and only count if no other
+  // change mentions them
   const allTickets = new Map<string, PRInfo>();
+  const revertedOnly = new Map<string, PRInfo>();
 
-  for (const commit of comparison.commits) {
+  for (const commit of commits) {
     const commitMessage = commit.commit.message;
-    const commitTickets = extractAllJiraTickets(commitMessage);
+    const commitTickets = extractAllJiraTickets(commitMessage, ticketPattern);
+    const tickets = isReverted(commit.sha) ? revertedOnly : allTickets;
 
     for (const ticket of commitTickets) {
-      if (!allTickets.has(ticket)) {
-        allTickets.set(ticket, {
+      if (!tickets.has(ticket)) {
+        tickets.set(ticket, {
           issue: ticket,
           title: commitMessage.split("\n")[0], // First line of commit message
           author: commit.author?.login ?? commit.commit.author?.name ?? "unknown",
@@ -141,39 +372,40 @@ async function fromTagComparison(
     }
   }
 
-  // Also find merged PRs and extract tickets from PR titles for richer metadata
-  const prNumbers = new Set<number>();
-
-  for (const commit of comparison.commits) {
-    // Merge commits: "Merge pull request #123 from..."
-    const prMatch = commit.commit.message.match(/Merge pull request #(\d+)/);
-    if (prMatch) {
-      prNumbers.add(parseInt(prMatch[1]));
-    }
-
-    // Squash merges: "ADV-123 Feature (#45)"
-    const squashMatch = commit.commit.message.match(/#(\d+)\)?$/m);
-    if (squashMatch) {
-      prNumbers.add(parseInt(squashMatch[1]));
-    }
-  }
-
-  core.info(`🔗 Found ${prNumbers.size} merged PRs`);
-
-  // Fetch PR details and extract Jira tickets (enriches with PR URL and full title)
-  for (const prNumber of prNumbers) {
-    try {
-      const { data: pr } = await octokit.rest.pulls.get({
+  // Also find the merged PRs the commits belong to and extract tickets from them for richer metadata
+  // PRs with any change left after netting reverts count; the others only bring reverted tickets
+  const prs = await findMergedPRs(
+    octokit,
+    owner,
+    repo,
+    commits.filter((c) => !isReverted(c.sha)).map((c) => c.sha)
+  );
+  const revertedShas = commits.filter((c) => isReverted(c.sha)).map((c) => c.sha);
+  const revertedPRs = (
+    revertedShas.length > 0 ? await findMergedPRs(octokit, owner, repo, revertedShas) : []
+  ).filter((pr) => !prs.some((p) => p.number === pr.number));
+
+  core.info(
+    `🔗 Found ${prs.length} merged PRs${revertedPRs.length > 0 ? ` and ${revertedPRs.length} reverted or reverting PRs` : ""}`
+  );
+
+  for (const [prList, tickets] of [
+    [prs, allTickets],
+    [revertedPRs, revertedOnly]
+  ] as const) {
+    for (const pr of prList) {
+      const prTickets = await extractPRTickets(
+        octokit,
         owner,
         repo,
-        pull_number: prNumber
-      });
-
-      const tickets = extractAllJiraTickets(pr.title);
+        pr,
+        ticketSources,
+        ticketPattern
+      );
 
-      for (const ticket of tickets) {
+      for (const ticket of prTickets.keys()) {
         // PR info takes precedence over commit info (better metadata)
-        allTickets.set(ticket, {
+        tickets.set(ticket, {
           issue: ticket,
           title: pr.title,
           author: pr.user?.login ?? "unknown",
@@ -182,11 +414,20 @@ async function fromTagComparison(
           url: pr.html_url
         });
       }
-    } catch {
-      core.warning(`⚠️ Could not fetch PR #${prNumber}`);
     }
   }
 
+  // Tickets only reverted changes mention
+  for (const [ticket, prInfo] of revertedOnly) {
+    if (allTickets.has(ticket)) continue;
+    if (revertedTickets === "skip") {
+      core.info(`↩️ Skipping ${ticket}: its changes were reverted`);
+      continue;
+    }
+    core.info(`↩️ ${ticket}: its changes were reverted, marking it as reverted`);
+    allTickets.set(ticket, { ...prInfo, reverted: true });
+  }
+
   const results = Array.from(allTickets.values());
   core.info(`📋 Total unique Jira tickets found: ${results.length}`);
   return results;
@@ -197,11 +438,12 @@ async function fromPRContext(
   octokit: ReturnType<typeof github.getOctokit>,
   owner: string,
   repo: string,
+  prNumber: number | null,
   app: string,
-  environment: string
+  environment: string,
+  ticketPattern: RegExp,
+  ticketSources: TicketSource[]
 ): Promise<PRInfo[]> {
-  const prNumber = github.context.payload.pull_request?.number;
-
   if (!prNumber) {
     core.info("ℹ️ No PR context available");
     return [];
@@ -215,9 +457,9 @@ async function fromPRContext(
     pull_number: prNumber
   });
 
-  const tickets = extractAllJiraTickets(pr.title);
+  const tickets = await extractPRTickets(octokit, owner, repo, pr, ticketSources, ticketPattern);
 
-  return tickets.map((ticket) => ({
+  return Array.from(tickets.keys()).map((ticket) => ({
     issue: ticket,
     title: pr.title,
     author: pr.user?.login ?? "unknown",
@@ -227,47 +469,109 @@ async function fromPRContext(
   }));
 }
 
-// Main function - decides which approach to use
-export async function getPRInfo(
-  token: string,
-  app: string,
-  environment: string,
-  jiraTicketsInput: string,
-  baseTag: string,
-  headTag: string,
-  tagSuffix: string
-): Promise<PRInfo[]> {
+// Octokit client whose every request is retried on rate limits and transient errors
+function createOctokit(token: string, retry: RetryOptions): Octokit {
   const octokit = github.getOctokit(token);
-  const { owner, repo } = github.context.repo;
+  octokit.hook.wrap("request", (request, options) =>
+    withRetry(`GitHub ${options.method} ${options.url}`, async () => request(options), retry)
+  );
+  return octokit;
+}
+
+// Main function - decides which approach to use
+// Also returns the base tag the comparison used (explicit or auto-detected), if any
+export async function getPRInfo(token: string, options: PRInfoOptions): Promise<PRInfoResult> {
+  const { app, environment, baseTag, headTag, tagSuffix, ticketPattern, ticketSources } = options;
+  const { revertedTickets } = options;
+  const { owner, repo } = options;
+  const octokit = createOctokit(token, options.retry);
 
   // Priority 1: Explicit tickets
-  if (jiraTicketsInput.trim() !== "") {
-    return fromExplicitTickets(jiraTicketsInput, app, environment);
+  if (options.jiraTickets.trim() !== "") {
+    return {
+      prInfos: fromExplicitTickets(options.jiraTickets, app, environment, ticketPattern),
+      baseTag: ""
+    };
   }
 
   // Priority 2: Tag comparison with explicit base and head
   if (baseTag.trim() !== "" && headTag.trim() !== "") {
-    return fromTagComparison(octokit, owner, repo, baseTag, headTag, app, environment);
+    const prInfos = await fromTagComparison(
+      octokit,
+      owner,
+      repo,
+      baseTag,
+      headTag,
+      app,
+      environment,
+      ticketPattern,
+      ticketSources,
+      revertedTickets
+    );
+    return { prInfos, baseTag };
   }
 
   // Priority 3: Auto-detect base tag using tag-suffix
   // When head-tag is given but base-tag is empty, find the previous tag for this environment
   if (headTag.trim() !== "" && tagSuffix.trim() !== "") {
-    const previousTag = await findPreviousTag(octokit, owner, repo, tagSuffix, headTag);
+    const previousTag = await findPreviousTag(
+      octokit,
+      owner,
+      repo,
+      tagSuffix,
+      headTag,
+      options.tagScheme
+    );
     if (previousTag) {
-      return fromTagComparison(octokit, owner, repo, previousTag, headTag, app, environment);
+      const prInfos = await fromTagComparison(
+        octokit,
+        owner,
+        repo,
+        previousTag,
+        headTag,
+        app,
+        environment,
+        ticketPattern,
+        ticketSources,
+        revertedTickets
+      );
+      return { prInfos, baseTag: previousTag };
     }
     core.warning(
       "⚠️ No previous tag found for auto-detection. This appears to be the first deployment for this environment. No tickets to sync."
     );
-    return [];
+    return { prInfos: [], baseTag: "" };
   }
 
   // Priority 4: Head tag with explicit base tag (base empty means compare from beginning)
   if (baseTag.trim() !== "") {
-    return fromTagComparison(octokit, owner, repo, baseTag, headTag, app, environment);
+    const prInfos = await fromTagComparison(
+      octokit,
+      owner,
+      repo,
+      baseTag,
+      headTag,
+      app,
+      environment,
+      ticketPattern,
+      ticketSources,
+      revertedTickets
+    );
+    return { prInfos, baseTag };
   }
 
   // Priority 5: Current PR context
-  return fromPRContext(octokit, owner, repo, app, environment);
+  return {
+    prInfos: await fromPRContext(
+      octokit,
+      owner,
+      repo,
+      options.prNumber,
+      app,
+      environment,
+      ticketPattern,
+      ticketSources
+    ),
+    baseTag: ""
+  };
 }
@@ -0,0 +1,223 @@
+import * as core from "@actions/core";
+import { DEFAULT_CONFIG } from "./config";
+import { formatApp, formatEnvironment } from "./sheets";
+import { ActionConfig, JiraIssue, JiraUpdateResult, PRInfo } from "./types";
+
+// Jira rejects very long JQL queries; keys are fetched in batches
+const JIRA_BATCH_SIZE = 50;
+const JIRA_TIMEOUT_MS = 10000;
+
+export interface JiraClientOptions {
+  // REST API root, e.g. https://jira.visma.com (without /rest/api/...)
+  apiUrl: string;
+  token: string;
+  // Jira Cloud: account email for basic auth. Empty: the token is sent as a bearer token (Server/DC)
+  user: string;
+}
+
+// Derive the REST API root from a browse URL (https://jira.visma.com/browse → https://jira.visma.com)
+export function jiraApiUrlFromBrowseUrl(browseUrl: string): string {
+  return browseUrl.replace(/\/+$/, "").replace(/\/browse$/i, "");
+}
+
+function authorizationHeader(options: JiraClientOptions): string {
+  if (options.user) {
+    return `Basic ${Buffer.from(`${options.user}:${options.token}`).toString("base64")}`;
+  }
+  return `Bearer ${options.token}`;
+}
+
+// Send a request to the Jira REST API and return the parsed JSON body (null for empty responses)
+async function jiraRequest<T>(
+  options: JiraClientOptions,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<T | null> {
+  const response = await fetch(`${options.apiUrl.replace(/\/+$/, "")}${path}`, {
+    method,
+    headers: {
+      Authorization: authorizationHeader(options),
+      "Content-Type": "application/json",
+      Accept: "application/json"
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(JIRA_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Jira ${method} ${path} failed with HTTP ${response.status} ${response.statusText}`
+    );
+  }
+
+  const text = await response.text();
+  return text ? (JSON.parse(text) as T) : null;
+}
+
+interface JiraSearchResponse {
+  issues?: Array<{
+    key: string;
+    fields?: {
+      summary?: string;
+      status?: { name?: string };
+      assignee?: { displayName?: string } | null;
+      issuetype?: { name?: string };
+    };
+  }>;
+}
+
+// Fetch summary, status, assignee and issue type for the given keys using JQL "key in (...)"
+export async function fetchJiraIssues(
+  options: JiraClientOptions,
+  keys: string[]
+): Promise<Map<string, JiraIssue>> {
+  const issues = new Map<string, JiraIssue>();
+  const uniqueKeys = [...new Set(keys)];
+
+  for (let i = 0; i < uniqueKeys.length; i += JIRA_BATCH_SIZE) {
+    const batch = uniqueKeys.slice(i, i + JIRA_BATCH_SIZE);
+    const data = await jiraRequest<JiraSearchResponse>(options, "POST", "/rest/api/2/search", {
+      jql: `key in (${batch.join(",")})`,
+      fields: ["summary", "status", "assignee", "issuetype"],
+      maxResults: batch.length,
+      // Unknown keys are reported as warnings instead of failing the whole query
+      validateQuery: "warn"
+    });
+    for (const issue of data?.issues ?? []) {
+      issues.set(issue.key.toUpperCase(), {
+        key: issue.key.toUpperCase(),
+        summary: issue.fields?.summary ?? "",
+        status: issue.fields?.status?.name ?? "",
+        assignee: issue.fields?.assignee?.displayName ?? "",
+        issueType: issue.fields?.issuetype?.name ?? ""
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Attach Jira details to each entry; if Jira is unreachable the entries are returned unchanged
+export async function enrichWithJira(
+  prInfos: PRInfo[],
+  options: JiraClientOptions
+): Promise<PRInfo[]> {
+  core.info(`🎫 Fetching ${prInfos.length} ticket(s) from Jira...`);
+
+  let issues: Map<string, JiraIssue>;
+  try {
+    issues = await fetchJiraIssues(
+      options,
+      prInfos.map((p) => p.issue)
+    );
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not fetch Jira details, continuing without them: ${(error as Error).message}`
+    );
+    return prInfos;
+  }
+
+  const missing = prInfos.filter((p) => !issues.has(p.issue)).map((p) => p.issue);
+  if (missing.length > 0) {
+    core.warning(`⚠️ Tickets not found in Jira: ${[...new Set(missing)].join(", ")}`);
+  }
+  core.info(`✅ Enriched ${prInfos.length - missing.length} ticket(s) from Jira`);
+
+  return prInfos.map((p) => {
+    const jira = issues.get(p.issue);
+    return jira ? { ...p, jira } : p;
+  });
+}
+
+// --- Deployment updates ---
+
+export interface JiraUpdateOptions {
+  // Workflow transition (or target status) name to apply, empty to skip
+  transition: string;
+  comment: boolean;
+  version: string;
+  config: ActionConfig;
+}
+
+interface JiraTransitionsResponse {
+  transitions?: Array<{ id: string; name: string; to?: { name?: string } }>;
+}
+
+// Comment text: version, environment, app and PR link of the deployment
+export function buildDeploymentComment(
+  pr: PRInfo,
+  version: string,
+  config: ActionConfig = DEFAULT_CONFIG
+): string {
+  const environment = formatEnvironment(pr.environment, config);
+  const lines = [`Deployed to ${environment} (${formatApp(pr.app, config)})`];
+  if (version) lines.push(`Version: ${version}`);
+  if (pr.url) lines.push(`PR: ${pr.url}`);
+  return lines.join("\n");
+}
+
+async function transitionIssue(
+  client: JiraClientOptions,
+  issue: string,
+  transitionName: string
+): Promise<string> {
+  const path = `/rest/api/2/issue/${encodeURIComponent(issue)}/transitions`;
+  const data = await jiraRequest<JiraTransitionsResponse>(client, "GET", path);
+  const wanted = transitionName.toLowerCase();
+  const transition = data?.transitions?.find(
+    (t) => t.name.toLowerCase() === wanted || t.to?.name?.toLowerCase() === wanted
+  );
+
+  if (!transition) {
+    const available = data?.transitions?.map((t) => t.name).join(", ") || "none";
+    throw new Error(`transition "${transitionName}" not available (available: ${available})`);
+  }
+
+  await jiraRequest(client, "POST", path, { transition: { id: transition.id } });
+  return `moved via "${transition.name}"`;
+}
+
+// Transition and/or comment on each ticket; failures are reported per ticket, never thrown
+export async function updateJiraIssues(
+  prInfos: PRInfo[],
+  client: JiraClientOptions,
+  options: JiraUpdateOptions
+): Promise<JiraUpdateResult[]> {
+  const results: JiraUpdateResult[] = [];
+  const seen = new Set<string>();
+
+  for (const pr of prInfos) {
+    if (seen.has(pr.issue)) continue;
+    seen.add(pr.issue);
+
+    if (options.transition) {
+      try {
+        const message = await transitionIssue(client, pr.issue, options.transition);
+        results.push({ issue: pr.issue, action: "transition", ok: true, message });
+        core.info(`✅ ${pr.issue}: ${message}`);
+      } catch (error) {
+        const message = (error as Error).message;
+        results.push({ issue: pr.issue, action: "transition", ok: false, message });
+        core.warning(`⚠️ ${pr.issue}: could not transition: ${message}`);
+      }
+    }
+
+    if (options.comment) {
+      try {
+        const path = `/rest/api/2/issue/${encodeURIComponent(pr.issue)}/comment`;
+        await jiraRequest(client, "POST", path, {
+          body: buildDeploymentComment(pr, options.version, options.config)
+        });
+        results.push({ issue: pr.issue, action: "comment", ok: true, message: "comment added" });
+        core.info(`✅ ${pr.issue}: comment added`);
+      } catch (error) {
+        const message = (error as Error).message;
+        results.push({ issue: pr.issue, action: "comment", ok: false, message });
+        core.warning(`⚠️ ${pr.issue}: could not add comment: ${message}`);
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,211 @@
+import * as core from "@actions/core";
+import { withRetry } from "./retry";
+import { SheetsContext } from "./sheets";
+import { LockOptions, SpreadsheetLock } from "./types";
+
+// Developer metadata key of the lock, stored on the spreadsheet itself
+export const LOCK_METADATA_KEY = "prs-to-sheets-lock";
+
+const LOCK_POLL_MS = 5000;
+// Time for a lock created at the same moment by another run to show up before the winner is
+// picked
+const LOCK_SETTLE_MS = 2000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Read every lock entry, oldest first: by creation time, then by metadata id for locks created
+// in the same millisecond. Entries that cannot be parsed count as expired.
+async function readLocks(ctx: SheetsContext): Promise<SpreadsheetLock[]> {
+  const response = await withRetry(
+    "Reading the spreadsheet lock",
+    () =>
+      ctx.sheets.spreadsheets.developerMetadata.search({
+        spreadsheetId: ctx.spreadsheetId,
+        requestBody: {
+          dataFilters: [{ developerMetadataLookup: { metadataKey: LOCK_METADATA_KEY } }]
+        }
+      }),
+    ctx.retry
+  );
+
+  return (response.data.matchedDeveloperMetadata ?? [])
+    .map((match) => match.developerMetadata)
+    .filter((metadata) => typeof metadata?.metadataId === "number")
+    .map((metadata) => {
+      let value: { owner?: string; createdAt?: number; expiresAt?: number } = {};
+      try {
+        value = JSON.parse(metadata?.metadataValue ?? "");
+      } catch {
+        // Unreadable entry: treated as a stale lock
+      }
+      return {
+        metadataId: metadata!.metadataId!,
+        owner: value.owner ?? "unknown",
+        createdAt: typeof value.createdAt === "number" ? value.createdAt : 0,
+        expiresAt: typeof value.expiresAt === "number" ? value.expiresAt : 0
+      };
+    })
+    .sort((a, b) => a.createdAt - b.createdAt || a.metadataId - b.metadataId);
+}
+
+function lockValue(lock: Omit<SpreadsheetLock, "metadataId">): string {
+  const { owner, createdAt, expiresAt } = lock;
+  return JSON.stringify({ owner, createdAt, expiresAt });
+}
+
+// Not retried: a retry after a lost response would leave a second lock entry behind
+async function createLock(
+  ctx: SheetsContext,
+  lock: Omit<SpreadsheetLock, "metadataId">
+): Promise<number> {
+  const response = await ctx.sheets.spreadsheets.batchUpdate({
+    spreadsheetId: ctx.spreadsheetId,
+    requestBody: {
+      requests: [
+        {
+          createDeveloperMetadata: {
+            developerMetadata: {
+              metadataKey: LOCK_METADATA_KEY,
+              metadataValue: lockValue(lock),
+              location: { spreadsheet: true },
+              visibility: "DOCUMENT"
+            }
+          }
+        }
+      ]
+    }
+  });
+
+  const metadataId =
+    response.data.replies?.[0]?.createDeveloperMetadata?.developerMetadata?.metadataId;
+  if (typeof metadataId !== "number") {
+    throw new Error("❌ Could not create the spreadsheet lock: no metadata id returned");
+  }
+  return metadataId;
+}
+
+async function deleteLock(ctx: SheetsContext, metadataId: number): Promise<void> {
+  await withRetry(
+    "Removing the spreadsheet lock",
+    () =>
+      ctx.sheets.spreadsheets.batchUpdate({
+        spreadsheetId: ctx.spreadsheetId,
+        requestBody: {
+          requests: [
+            { deleteDeveloperMetadata: { dataFilter: { developerMetadataLookup: { metadataId } } } }
+          ]
+        }
+      }),
+    ctx.retry
+  );
+}
+
+// Wait for and take the spreadsheet lock; returns the lock's metadata id for renewLock and
+// releaseLock. Expired locks (from crashed runs) are removed. When two runs create a lock at
+// the same time, the one created first wins and the other run backs off and keeps waiting.
+export async function acquireLock(
+  ctx: SheetsContext,
+  options: LockOptions,
+  pollMs = LOCK_POLL_MS,
+  settleMs = LOCK_SETTLE_MS
+): Promise<number> {
+  const deadline = Date.now() + options.timeoutSeconds * 1000;
+
+  for (;;) {
+    // 1. Remove stale locks
+    const locks = await readLocks(ctx);
+    for (const stale of locks.filter((l) => l.expiresAt <= Date.now())) {
+      core.warning(
+        `⚠️ Removing stale spreadsheet lock held by ${stale.owner} (expired ${new Date(stale.expiresAt).toISOString()})`
+      );
+      try {
+        await deleteLock(ctx, stale.metadataId);
+      } catch {
+        // Another run removed it first
+      }
+    }
+
+    // 2. Take the lock when nobody else holds it
+    const active = locks.filter((l) => l.expiresAt > Date.now());
+    if (active.length === 0) {
+      const createdAt = Date.now();
+      const metadataId = await createLock(ctx, {
+        owner: options.owner,
+        createdAt,
+        expiresAt: createdAt + options.ttlSeconds * 1000
+      });
+      // Let a lock another run created at the same time show up before picking the winner
+      await sleep(settleMs);
+      const [winner] = (await readLocks(ctx)).filter((l) => l.expiresAt > Date.now());
+      if (winner?.metadataId === metadataId) {
+        core.info(`🔒 Acquired spreadsheet lock (${options.owner})`);
+        return metadataId;
+      }
+      await deleteLock(ctx, metadataId);
+      core.info(`⏳ Spreadsheet lock taken by ${winner?.owner ?? "another run"}, waiting...`);
+    } else {
+      core.info(
+        `⏳ Spreadsheet locked by ${active[0].owner} until ${new Date(active[0].expiresAt).toISOString()}, waiting...`
+      );
+    }
+
+    // 3. Wait and retry until the timeout
+    if (Date.now() + pollMs > deadline) {
+      const holder = (await readLocks(ctx)).find((l) => l.expiresAt > Date.now());
+      throw new Error(
+        `❌ Timed out after ${options.timeoutSeconds}s waiting for the spreadsheet lock held by ${holder?.owner ?? "another run"}`
+      );
+    }
+    await sleep(pollMs);
+  }
+}
+
+// Check the lock is still held and extend it by its TTL, e.g. before the archive batch
+export async function renewLock(
+  ctx: SheetsContext,
+  metadataId: number,
+  options: LockOptions
+): Promise<void> {
+  const held = (await readLocks(ctx)).find((l) => l.metadataId === metadataId);
+  if (!held || held.expiresAt <= Date.now()) {
+    throw new Error(
+      `❌ Lost the spreadsheet lock: it expired after lock-ttl (${options.ttlSeconds}s) and another run may have taken it`
+    );
+  }
+
+  const expiresAt = Date.now() + options.ttlSeconds * 1000;
+  await withRetry(
+    "Renewing the spreadsheet lock",
+    () =>
+      ctx.sheets.spreadsheets.batchUpdate({
+        spreadsheetId: ctx.spreadsheetId,
+        requestBody: {
+          requests: [
+            {
+              updateDeveloperMetadata: {
+                dataFilters: [{ developerMetadataLookup: { metadataId } }],
+                developerMetadata: { metadataValue: lockValue({ ...held, expiresAt }) },
+                fields: "metadataValue"
+              }
+            }
+          ]
+        }
+      }),
+    ctx.retry
+  );
+  core.info(`🔒 Renewed spreadsheet lock until ${new Date(expiresAt).toISOString()}`);
+}
+
+// Release the lock; if this fails the lock expires on its own after its TTL
+export async function releaseLock(ctx: SheetsContext, metadataId: number): Promise<void> {
+  try {
+    await deleteLock(ctx, metadataId);
+    core.info("🔓 Released spreadsheet lock");
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not release the spreadsheet lock, it expires on its own: ${(error as Error).message}`
+    );
+  }
+}
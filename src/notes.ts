@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import * as path from "path";
+import { appLabel, environmentLabel } from "./config";
+import { PRInfo, ReleaseNotesFormat, ReleaseNotesOptions } from "./types";
+
+export const RELEASE_NOTES_FORMATS: ReleaseNotesFormat[] = ["markdown", "html", "text"];
+
+export function parseReleaseNotesFormat(input: string): ReleaseNotesFormat {
+  const format = (input.trim().toLowerCase() || "markdown") as ReleaseNotesFormat;
+  if (!RELEASE_NOTES_FORMATS.includes(format)) {
+    throw new Error(
+      `❌ Invalid release-notes-format: "${input}". Must be one of: ${RELEASE_NOTES_FORMATS.join(", ")}`
+    );
+  }
+  return format;
+}
+
+interface TicketNotes {
+  issue: string;
+  summary: string;
+  jiraUrl: string;
+  prs: PRInfo[];
+}
+
+interface AppNotes {
+  app: string;
+  tickets: TicketNotes[];
+}
+
+// Group entries by app, then by ticket, keeping the order they were found in
+function groupNotes(prInfos: PRInfo[], options: ReleaseNotesOptions): AppNotes[] {
+  const apps = new Map<string, Map<string, TicketNotes>>();
+  const jiraBaseUrl = options.jiraBaseUrl.replace(/\/+$/, "");
+
+  for (const pr of prInfos) {
+    const app = appLabel(options.config, pr.app);
+    const tickets = apps.get(app) ?? new Map<string, TicketNotes>();
+    apps.set(app, tickets);
+
+    const ticket = tickets.get(pr.issue) ?? {
+      issue: pr.issue,
+      summary: pr.jira?.summary || pr.title,
+      jiraUrl: jiraBaseUrl ? `${jiraBaseUrl}/${pr.issue}` : "",
+      prs: []
+    };
+    tickets.set(pr.issue, ticket);
+    if (pr.url && !ticket.prs.some((p) => p.url === pr.url)) {
+      ticket.prs.push(pr);
+    }
+  }
+
+  return Array.from(apps, ([app, tickets]) => ({ app, tickets: Array.from(tickets.values()) }));
+}
+
+// "Release #1.2.0 to Stage (v1.1.0-stage...v1.2.0-stage)"
+function releaseTitle(options: ReleaseNotesOptions): string {
+  const version = options.version || options.headTag;
+  const range = options.baseTag ? `${options.baseTag}...${options.headTag || "HEAD"}` : "";
+  return [
+    `Release${version ? ` ${version}` : ""} to ${environmentLabel(options.config, options.environment)}`,
+    range ? `(${range})` : ""
+  ]
+    .filter((part) => part !== "")
+    .join(" ");
+}
+
+function prAuthor(pr: PRInfo): string {
+  return pr.author && pr.author !== "unknown" ? pr.author : "";
+}
+
+export function buildMarkdownNotes(prInfos: PRInfo[], options: ReleaseNotesOptions): string {
+  const lines = [`## ${releaseTitle(options)}`, ""];
+
+  for (const { app, tickets } of groupNotes(prInfos, options)) {
+    lines.push(`### ${app}`, "");
+    for (const ticket of tickets) {
+      const key = ticket.jiraUrl ? `[${ticket.issue}](${ticket.jiraUrl})` : ticket.issue;
+      lines.push(`- **${key}**${ticket.summary ? ` ${ticket.summary}` : ""}`);
+      for (const pr of ticket.prs) {
+        const author = prAuthor(pr);
+        lines.push(`  - [${pr.title || pr.url}](${pr.url})${author ? ` by @${author}` : ""}`);
+      }
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+export function buildTextNotes(prInfos: PRInfo[], options: ReleaseNotesOptions): string {
+  const lines = [releaseTitle(options), ""];
+
+  for (const { app, tickets } of groupNotes(prInfos, options)) {
+    lines.push(`${app}:`);
+    for (const ticket of tickets) {
+      lines.push(`- ${ticket.issue}${ticket.summary ? ` ${ticket.summary}` : ""}`);
+      if (ticket.jiraUrl) lines.push(`  ${ticket.jiraUrl}`);
+      for (const pr of ticket.prs) {
+        const author = prAuthor(pr);
+        lines.push(`  ${pr.url}${author ? ` (${author})` : ""}`);
+      }
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function buildHtmlNotes(prInfos: PRInfo[], options: ReleaseNotesOptions): string {
+  const link = (url: string, text: string) =>
+    url ? `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>` : escapeHtml(text);
+  const html = [`<h2>${escapeHtml(releaseTitle(options))}</h2>`];
+
+  for (const { app, tickets } of groupNotes(prInfos, options)) {
+    html.push(`<h3>${escapeHtml(app)}</h3>`, "<ul>");
+    for (const ticket of tickets) {
+      const summary = ticket.summary ? ` ${escapeHtml(ticket.summary)}` : "";
+      html.push(`  <li><strong>${link(ticket.jiraUrl, ticket.issue)}</strong>${summary}`);
+      if (ticket.prs.length > 0) {
+        html.push("    <ul>");
+        for (const pr of ticket.prs) {
+          const author = prAuthor(pr);
+          html.push(
+            `      <li>${link(pr.url, pr.title || pr.url)}${author ? ` by @${escapeHtml(author)}` : ""}</li>`
+          );
+        }
+        html.push("    </ul>");
+      }
+      html.push("  </li>");
+    }
+    html.push("</ul>");
+  }
+
+  return html.join("\n") + "\n";
+}
+
+export function buildReleaseNotes(
+  prInfos: PRInfo[],
+  options: ReleaseNotesOptions,
+  format: ReleaseNotesFormat
+): string {
+  switch (format) {
+    case "html":
+      return buildHtmlNotes(prInfos, options);
+    case "text":
+      return buildTextNotes(prInfos, options);
+    default:
+      return buildMarkdownNotes(prInfos, options);
+  }
+}
+
+export function writeReleaseNotesFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, "utf8");
+}
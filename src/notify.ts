@@ -0,0 +1,138 @@
+import * as core from "@actions/core";
+import { appLabel, environmentLabel } from "./config";
+import { NotifyOptions, PRInfo, SyncResult } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export const DEFAULT_NOTIFY_TEMPLATE = [
+  "🚀 {app} {version} deployed to {environment} ({count} ticket(s))",
+  "{tickets}",
+  "Archive: {archive-url}",
+  "Sheet: {sheet-url}"
+].join("\n");
+
+type ChatPlatform = "slack" | "teams";
+
+// Replace {placeholders}; lines whose placeholders are all empty are dropped
+// (e.g., "Archive: {archive-url}" when nothing was archived). Unknown placeholders are kept.
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .split("\n")
+    .filter((line) => {
+      const names = (line.match(/\{[a-z-]+\}/g) ?? [])
+        .map((placeholder) => placeholder.slice(1, -1))
+        .filter((name) => name in values);
+      return names.length === 0 || names.some((name) => values[name] !== "");
+    })
+    .map((line) => line.replace(/\{([a-z-]+)\}/g, (match, name) => values[name] ?? match))
+    .join("\n");
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// One line per released ticket, linked to Jira in the platform's link syntax
+function ticketLines(prInfos: PRInfo[], jiraBaseUrl: string, platform: ChatPlatform): string {
+  const baseUrl = jiraBaseUrl.replace(/\/+$/, "");
+  const seen = new Set<string>();
+  const lines: string[] = [];
+
+  for (const pr of prInfos) {
+    if (seen.has(pr.issue)) continue;
+    seen.add(pr.issue);
+
+    const summary = pr.jira?.summary || pr.title;
+    const url = baseUrl ? `${baseUrl}/${pr.issue}` : "";
+    if (platform === "slack") {
+      const key = url ? `<${url}|${pr.issue}>` : pr.issue;
+      lines.push(`• ${key}${summary ? ` ${escapeSlack(summary)}` : ""}`);
+    } else {
+      const key = url ? `[${pr.issue}](${url})` : pr.issue;
+      lines.push(`- ${key}${summary ? ` ${summary}` : ""}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// Placeholder values: environment, app, version, count, tickets, archive-tab, archive-url, sheet-url
+export function buildTemplateValues(
+  prInfos: PRInfo[],
+  result: SyncResult,
+  options: NotifyOptions,
+  platform: ChatPlatform
+): Record<string, string> {
+  // File trackers have no spreadsheet to link to
+  const sheetUrl = options.spreadsheetId
+    ? `https://docs.google.com/spreadsheets/d/${options.spreadsheetId}`
+    : "";
+  const archiveUrl =
+    sheetUrl && result.archiveName && result.archiveSheetId !== null
+      ? `${sheetUrl}/edit#gid=${result.archiveSheetId}`
+      : "";
+
+  return {
+    environment: environmentLabel(options.config, prInfos[0]?.environment ?? ""),
+    app: appLabel(options.config, prInfos[0]?.app ?? ""),
+    version: options.version,
+    count: String(new Set(prInfos.map((p) => p.issue)).size),
+    tickets: ticketLines(prInfos, options.jiraBaseUrl, platform),
+    "archive-tab": result.archiveName ?? "",
+    "archive-url": archiveUrl,
+    "sheet-url": sheetUrl
+  };
+}
+
+// Slack incoming webhooks take { text }; Teams connectors take a MessageCard
+// (Teams needs blank lines between lines to keep them apart)
+export function buildWebhookPayload(platform: ChatPlatform, text: string): object {
+  if (platform === "slack") {
+    return { text };
+  }
+  return {
+    "@type": "MessageCard",
+    "@context": "https://schema.org/extensions",
+    summary: text.split("\n")[0],
+    text: text.replace(/\n/g, "\n\n")
+  };
+}
+
+async function postWebhook(url: string, payload: object): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+}
+
+// Post the deployment message to each configured webhook; failures are warnings, never thrown
+export async function sendNotifications(
+  prInfos: PRInfo[],
+  result: SyncResult,
+  options: NotifyOptions
+): Promise<void> {
+  const webhooks: Array<[ChatPlatform, string]> = [
+    ["slack", options.slackWebhookUrl],
+    ["teams", options.teamsWebhookUrl]
+  ];
+
+  for (const [platform, url] of webhooks) {
+    if (!url) continue;
+
+    const text = renderTemplate(
+      options.template,
+      buildTemplateValues(prInfos, result, options, platform)
+    );
+    try {
+      await postWebhook(url, buildWebhookPayload(platform, text));
+      core.info(`📣 Sent ${platform} notification`);
+    } catch (error) {
+      core.warning(`⚠️ Could not send ${platform} notification: ${(error as Error).message}`);
+    }
+  }
+}
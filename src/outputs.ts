@@ -0,0 +1,33 @@
+import * as core from "@actions/core";
+import { PlannedTicket, PRInfo, SyncResult } from "./types";
+
+// Ticket keys in order, without the duplicates one-row-per-app syncs produce
+function uniqueIssues(tickets: PlannedTicket[]): string {
+  return [...new Set(tickets.map((t) => t.issue))].join(",");
+}
+
+// Action outputs describing what was synced (see action.yml)
+export function buildOutputs(
+  spreadsheetId: string,
+  prInfos: PRInfo[],
+  baseTag: string,
+  result: SyncResult | null,
+  releaseNotes = ""
+): Record<string, string> {
+  return {
+    "added-tickets": result ? uniqueIssues(result.plan.added) : "",
+    "updated-tickets": result ? uniqueIssues(result.plan.updated) : "",
+    "base-tag": baseTag,
+    "archive-tab": result?.archiveName ?? "",
+    // Empty for file trackers
+    "sheet-url": spreadsheetId ? `https://docs.google.com/spreadsheets/d/${spreadsheetId}` : "",
+    "pr-info": JSON.stringify(prInfos),
+    "release-notes": releaseNotes
+  };
+}
+
+export function setOutputs(outputs: Record<string, string>): void {
+  for (const [name, value] of Object.entries(outputs)) {
+    core.setOutput(name, value);
+  }
+}
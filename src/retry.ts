@@ -0,0 +1,137 @@
+import * as core from "@actions/core";
+import { RetryOptions } from "./types";
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Longer Retry-After (or rate limit reset) waits fail the run instead of stalling it
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+// Rate limits, timeouts and transient server errors
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT"
+];
+
+// Shape shared by Gaxios (Google) and Octokit request errors
+interface HttpError {
+  status?: number;
+  code?: string | number;
+  message?: string;
+  response?: { status?: number; headers?: unknown };
+  cause?: { code?: string };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function parseRetryAttempts(input: string): number {
+  const value = Number(input.trim() || DEFAULT_RETRY_OPTIONS.maxAttempts);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`❌ Invalid retry-attempts: "${input}". Must be a whole number of at least 1`);
+  }
+  return value;
+}
+
+function errorStatus(error: HttpError): number | null {
+  const status = error.status ?? error.response?.status ?? Number(error.code);
+  return Number.isInteger(status) ? status : null;
+}
+
+// Response header from a plain object (Octokit) or a fetch Headers (Gaxios)
+function responseHeader(error: HttpError, name: string): string {
+  const headers = error.response?.headers as
+    | { get?: (name: string) => string | null; [name: string]: unknown }
+    | undefined;
+  if (!headers) {
+    return "";
+  }
+  const value = typeof headers.get === "function" ? headers.get(name) : headers[name];
+  return value === undefined || value === null ? "" : String(value);
+}
+
+// Time the API asked us to wait: Retry-After (seconds or a date), or GitHub's rate limit
+// reset when no requests are left. Null when the response does not say.
+export function retryAfterMs(error: unknown, now = Date.now()): number | null {
+  const httpError = error as HttpError;
+  const retryAfter = responseHeader(httpError, "retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - now : seconds * 1000;
+    return Number.isNaN(ms) ? null : Math.max(0, ms);
+  }
+
+  const reset = Number(responseHeader(httpError, "x-ratelimit-reset"));
+  if (responseHeader(httpError, "x-ratelimit-remaining") === "0" && reset > 0) {
+    return Math.max(0, reset * 1000 - now);
+  }
+  return null;
+}
+
+// Transient failures worth retrying; anything else (bad input, auth, not found) is fatal
+export function isRetryableError(error: unknown): boolean {
+  const httpError = error as HttpError;
+  const status = errorStatus(httpError);
+  if (status !== null) {
+    // GitHub answers rate limits with 403 and a Retry-After or an exhausted quota
+    if (status === 403) {
+      return retryAfterMs(error) !== null || /secondary rate limit/i.test(httpError.message ?? "");
+    }
+    return RETRYABLE_STATUSES.includes(status);
+  }
+
+  const code = String(httpError.code ?? httpError.cause?.code ?? "");
+  return RETRYABLE_CODES.includes(code);
+}
+
+// Exponential backoff with full jitter: a random wait up to base * 2^(attempt - 1), capped
+export function backoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+// Run an API call, retrying transient failures; the last error is rethrown
+export async function withRetry<T>(
+  label: string,
+  call: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  wait: (ms: number) => Promise<void> = sleep
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const requested = retryAfterMs(error);
+      if (requested !== null && requested > MAX_RETRY_AFTER_MS) {
+        core.warning(
+          `⚠️ ${label}: asked to wait ${Math.ceil(requested / 1000)}s before retrying. Giving up.`
+        );
+        throw error;
+      }
+
+      const delay = requested ?? backoffDelay(attempt, options);
+      core.info(
+        `🔁 ${label} failed (${(error as Error).message}). Retry ${attempt}/${options.maxAttempts - 1} in ${(delay / 1000).toFixed(1)}s`
+      );
+      await wait(delay);
+    }
+  }
+}
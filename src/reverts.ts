@@ -0,0 +1,144 @@
+import { RevertedTickets } from "./types";
+
+export const REVERTED_TICKETS: RevertedTickets[] = ["mark", "skip"];
+
+// Status written to the sheet for tickets whose changes were reverted
+export const REVERTED_STATUS = "Reverted";
+
+// git revert writes `Revert "<subject>"` and "This reverts commit <sha>."; reverting a revert
+// gives `Revert "Revert "<subject>""` (or `Reapply "<subject>"` in newer git versions)
+const REVERT_SUBJECT = /^(?:Revert|Reapply) "/;
+const REVERTED_SHA = /This reverts commit ([0-9a-f]{7,40})/i;
+const REVERT_PREFIX = 'Revert "';
+
+// The parts of a compared commit revert detection needs
+export interface RangeCommit {
+  sha: string;
+  parents: Array<{ sha: string }>;
+  commit: { message: string };
+}
+
+export interface RevertInfo {
+  // Commit the revert undoes (possibly abbreviated), empty when the message does not say
+  sha: string;
+  // Reverting a revert applies the original change again
+  reapply: boolean;
+}
+
+export interface RevertedCommits {
+  // Changes cancelled out within the range: reverted commits and the reverts undoing them
+  netted: Set<string>;
+  // Reverts of changes made before the range, which the release takes out
+  reverting: Set<string>;
+}
+
+// Parse the reverted-tickets input; defaults to marking the tickets
+export function parseRevertedTickets(input: string): RevertedTickets {
+  const value = input.trim().toLowerCase() || "mark";
+  if (!REVERTED_TICKETS.includes(value as RevertedTickets)) {
+    throw new Error(
+      `❌ Invalid reverted-tickets: "${input}". Must be one of: ${REVERTED_TICKETS.join(", ")}`
+    );
+  }
+  return value as RevertedTickets;
+}
+
+// Recognise a revert commit by its message; null for any other commit
+export function parseRevert(message: string): RevertInfo | null {
+  const subject = message.split("\n")[0];
+  const sha = message.match(REVERTED_SHA)?.[1]?.toLowerCase() ?? "";
+  if (!sha && !REVERT_SUBJECT.test(subject)) {
+    return null;
+  }
+
+  let depth = 0;
+  while (subject.startsWith(REVERT_PREFIX.repeat(depth + 1))) depth++;
+  return { sha, reapply: subject.startsWith('Reapply "') || (depth > 0 && depth % 2 === 0) };
+}
+
+// Commits ordered so each one comes after its parents (oldest first)
+function topologicalOrder(commits: RangeCommit[], bySha: Map<string, RangeCommit>): RangeCommit[] {
+  const ordered: RangeCommit[] = [];
+  const visited = new Set<string>();
+  for (const start of commits) {
+    if (visited.has(start.sha)) continue;
+    visited.add(start.sha);
+    const stack = [{ commit: start, next: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const parent = frame.commit.parents[frame.next++];
+      if (!parent) {
+        ordered.push(frame.commit);
+        stack.pop();
+        continue;
+      }
+      const parentCommit = bySha.get(parent.sha);
+      if (parentCommit && !visited.has(parentCommit.sha)) {
+        visited.add(parentCommit.sha);
+        stack.push({ commit: parentCommit, next: 0 });
+      }
+    }
+  }
+  return ordered;
+}
+
+function ancestorsInRange(sha: string, bySha: Map<string, RangeCommit>): Set<string> {
+  const found = new Set<string>();
+  const stack = [sha];
+  while (stack.length > 0) {
+    const commit = bySha.get(stack.pop() as string);
+    if (!commit || found.has(commit.sha)) continue;
+    found.add(commit.sha);
+    stack.push(...commit.parents.map((p) => p.sha));
+  }
+  return found;
+}
+
+// Commits a merge brings in from its merged branch (the merge itself excluded)
+function mergedCommits(merge: RangeCommit, bySha: Map<string, RangeCommit>): Set<string> {
+  const [mainline, ...branches] = merge.parents.map((p) => p.sha);
+  const merged = new Set<string>();
+  for (const branch of branches) {
+    for (const sha of ancestorsInRange(branch, bySha)) merged.add(sha);
+  }
+  for (const sha of ancestorsInRange(mainline, bySha)) merged.delete(sha);
+  return merged;
+}
+
+// Net revert commits against the changes they undo. Newest commits are read first, so a
+// reverted revert leaves the original change in place. Reverting a merge (git revert -m 1)
+// takes out every commit the merge brought in, and a merge that only brings in reverted
+// changes (e.g. the merge of a revert PR) is netted with them.
+export function findRevertedCommits(commits: RangeCommit[]): RevertedCommits {
+  const bySha = new Map(commits.map((c) => [c.sha, c]));
+  const oldestFirst = topologicalOrder(commits, bySha);
+  const netted = new Set<string>();
+  const reverting = new Set<string>();
+
+  for (const commit of [...oldestFirst].reverse()) {
+    if (netted.has(commit.sha)) continue;
+    const revert = parseRevert(commit.commit.message);
+    if (!revert) continue;
+
+    const target = revert.sha ? commits.find((c) => c.sha.startsWith(revert.sha)) : undefined;
+    if (target) {
+      netted.add(commit.sha);
+      netted.add(target.sha);
+      if (target.parents.length > 1) {
+        for (const sha of mergedCommits(target, bySha)) netted.add(sha);
+      }
+    } else if (!revert.reapply) {
+      reverting.add(commit.sha);
+    }
+  }
+
+  for (const commit of oldestFirst) {
+    if (commit.parents.length < 2 || netted.has(commit.sha) || reverting.has(commit.sha)) continue;
+    const merged = [...mergedCommits(commit, bySha)];
+    if (merged.length > 0 && merged.every((sha) => netted.has(sha) || reverting.has(sha))) {
+      (merged.some((sha) => reverting.has(sha)) ? reverting : netted).add(commit.sha);
+    }
+  }
+
+  return { netted, reverting };
+}
@@ -0,0 +1,392 @@
+import * as core from "@actions/core";
+import { DEFAULT_AUDIT_LOG_TAB } from "./audit";
+import { credentialSecrets, resolveGoogleCredentials } from "./auth";
+import { parseArchiveNameTemplate, parseArchiveRetention, parseTimeZone } from "./archive";
+import { parseColumnMapping, parseVersionCells } from "./columns";
+import {
+  archiveEnvironment,
+  DEFAULT_CONFIG,
+  environmentChoices,
+  findEnvironment,
+  loadConfig
+} from "./config";
+import { getPRInfo } from "./github";
+import { enrichWithJira, jiraApiUrlFromBrowseUrl, updateJiraIssues } from "./jira";
+import {
+  buildMarkdownNotes,
+  buildReleaseNotes,
+  parseReleaseNotesFormat,
+  writeReleaseNotesFile
+} from "./notes";
+import { DEFAULT_NOTIFY_TEMPLATE, sendNotifications } from "./notify";
+import { buildOutputs } from "./outputs";
+import { DEFAULT_RETRY_OPTIONS, parseRetryAttempts } from "./retry";
+import { parseRevertedTickets } from "./reverts";
+import { syncToSheets } from "./sheets";
+import { writeDryRunSummary, writeJiraSummary, writeReleaseNotesSummary } from "./summary";
+import { buildTicketPattern, parseProjectKeys, parseTicketSources } from "./tickets";
+import { createTracker, parseTrackerKind } from "./tracker";
+import { ActionConfig, RunHost } from "./types";
+import { parseTagScheme } from "./versions";
+
+// Normalize environment names and aliases from the config to canonical form
+export function normalizeEnvironment(env: string, config: ActionConfig = DEFAULT_CONFIG): string {
+  return findEnvironment(config, env)?.name ?? "";
+}
+
+// Parse a comma-separated list of environments (e.g., "int, prod") into canonical names
+export function parseEnvironmentList(
+  input: string,
+  inputName: string,
+  config: ActionConfig = DEFAULT_CONFIG
+): string[] {
+  return input
+    .split(",")
+    .map((e) => e.trim())
+    .filter((e) => e.length > 0)
+    .map((entry) => {
+      const env = normalizeEnvironment(entry, config);
+      if (!env) {
+        throw new Error(
+          `❌ Invalid environment in ${inputName}: "${entry}". Must be one of: ${environmentChoices(config).join(", ")}`
+        );
+      }
+      return env;
+    });
+}
+
+// Parse the environment-order input (e.g., "int, stage, prod") into canonical environments
+// Defaults to the order of the environments in the config
+export function parseEnvironmentOrder(
+  input: string,
+  config: ActionConfig = DEFAULT_CONFIG
+): string[] {
+  const order = parseEnvironmentList(input, "environment-order", config);
+
+  if (new Set(order).size !== order.length) {
+    throw new Error(`❌ Duplicate environment in environment-order: "${input}"`);
+  }
+
+  return order.length > 0 ? order : config.environments.map((e) => e.name);
+}
+
+// Parse "environment=value" pairs (e.g., "stage=Deployed to Stage, prod=Released")
+export function parseEnvironmentMapping(
+  input: string,
+  inputName: string,
+  config: ActionConfig = DEFAULT_CONFIG
+): Record<string, string> {
+  const mapping: Record<string, string> = {};
+
+  const entries = input
+    .split(/[,\n]/)
+    .map((e) => e.trim())
+    .filter((e) => e.length > 0);
+
+  for (const entry of entries) {
+    const separator = entry.indexOf("=");
+    const env = normalizeEnvironment(
+      separator === -1 ? "" : entry.slice(0, separator).trim(),
+      config
+    );
+    const value = separator === -1 ? "" : entry.slice(separator + 1).trim();
+    if (!env || !value) {
+      throw new Error(
+        `❌ Invalid ${inputName} entry: "${entry}". Expected format: environment=value (e.g., stage=Deployed to Stage)`
+      );
+    }
+    mapping[env] = value;
+  }
+
+  return mapping;
+}
+
+// Parse a whole number of seconds (e.g., lock-timeout)
+export function parseSeconds(input: string, inputName: string): number {
+  const value = Number(input.trim());
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`❌ Invalid ${inputName}: "${input}". Must be a positive number of seconds`);
+  }
+  return value;
+}
+
+// Read a required input, failing like host.getInput(name, { required: true })
+function requireInput(host: RunHost, name: string): string {
+  const value = host.getInput(name);
+  if (!value) {
+    throw new Error(`❌ Input required and not supplied: ${name}`);
+  }
+  return value;
+}
+
+// Run a sync with inputs and outputs from the host (the GitHub Action or the CLI)
+export async function runSync(host: RunHost): Promise<void> {
+  const { context } = host;
+
+  // 1. Get inputs (apps and environments come from the config file)
+  const config = loadConfig(host.getInput("config-file") || "");
+  const token = requireInput(host, "github-token");
+  // Google Sheets needs the spreadsheet and credentials, file trackers only their path
+  const trackerKind = parseTrackerKind(host.getInput("tracker") || "");
+  const usesGoogle = trackerKind === "google-sheets";
+  const spreadsheetId = usesGoogle ? requireInput(host, "spreadsheet-id") : "";
+  const googleCredentialsInput = host.getInput("google-credentials") || "";
+  const workloadIdentityProvider = host.getInput("workload-identity-provider") || "";
+  const serviceAccount = host.getInput("service-account") || "";
+  const trackerPath = usesGoogle ? "" : requireInput(host, "tracker-path");
+  const app = requireInput(host, "app");
+  const environmentRaw = requireInput(host, "environment");
+  const version = host.getInput("version") || "";
+  const sheetName = host.getInput("sheet-name") || "Next";
+  const archiveNameTemplate = parseArchiveNameTemplate(host.getInput("archive-name") || "");
+  const archiveTimeZone = parseTimeZone(host.getInput("archive-timezone") || "");
+  const archiveRetention = parseArchiveRetention(
+    host.getInput("archive-retention") || "",
+    host.getInput("archive-retention-action") || "",
+    host.getInput("archive-destination") || "",
+    trackerKind
+  );
+  const jiraTickets = host.getInput("jira-tickets") || "";
+  const baseTag = host.getInput("base-tag") || "";
+  const headTag = host.getInput("head-tag") || "";
+  const tagSuffixInput = host.getInput("tag-suffix") || "";
+  const tagScheme = parseTagScheme(host.getInput("tag-scheme") || "");
+  const jiraBaseUrl = host.getInput("jira-base-url") || "https://jira.visma.com/browse";
+  const jiraProjectKeys = host.getInput("jira-project-keys") || "";
+  const jiraTicketPattern = host.getInput("jira-ticket-pattern") || "";
+  const ticketSources = parseTicketSources(host.getInput("ticket-sources") || "");
+  const revertedTickets = parseRevertedTickets(host.getInput("reverted-tickets") || "");
+  const jiraApiUrl = host.getInput("jira-api-url") || jiraApiUrlFromBrowseUrl(jiraBaseUrl);
+  const jiraUser = host.getInput("jira-user") || "";
+  const jiraToken = host.getInput("jira-token") || "";
+  const jiraTransitions = parseEnvironmentMapping(
+    host.getInput("jira-transitions") || "",
+    "jira-transitions",
+    config
+  );
+  const jiraCommentEnvironments = parseEnvironmentList(
+    host.getInput("jira-comment-environments") || "",
+    "jira-comment-environments",
+    config
+  );
+  const columnMapping = host.getInput("column-mapping") || "";
+  const versionCells = host.getInput("version-cells") || "";
+  const rowPerApp = host.getInput("row-per-app").toLowerCase() === "true";
+  const environmentOrder = parseEnvironmentOrder(host.getInput("environment-order") || "", config);
+  const allowDowngrade = host.getInput("allow-downgrade").toLowerCase() === "true";
+  const lockTimeout = parseSeconds(host.getInput("lock-timeout") || "300", "lock-timeout");
+  const lockTtl = parseSeconds(host.getInput("lock-ttl") || "600", "lock-ttl");
+  const retry = {
+    ...DEFAULT_RETRY_OPTIONS,
+    maxAttempts: parseRetryAttempts(host.getInput("retry-attempts") || "")
+  };
+  const auditLogTab = host.getInput("audit-log-tab") || DEFAULT_AUDIT_LOG_TAB;
+  const releaseNotesEnabled = host.getInput("release-notes").toLowerCase() === "true";
+  const releaseNotesFile = host.getInput("release-notes-file") || "";
+  const releaseNotesFormat = parseReleaseNotesFormat(host.getInput("release-notes-format") || "");
+  const slackWebhookUrl = host.getInput("slack-webhook-url") || "";
+  const teamsWebhookUrl = host.getInput("teams-webhook-url") || "";
+  const notifyEnvironments = parseEnvironmentList(
+    host.getInput("notify-environments") || archiveEnvironment(config),
+    "notify-environments",
+    config
+  );
+  const notifyTemplate = host.getInput("notify-template") || DEFAULT_NOTIFY_TEMPLATE;
+  const dryRun = host.getInput("dry-run").toLowerCase() === "true";
+
+  // 2. Normalize and validate environment
+  const environmentConfig = findEnvironment(config, environmentRaw);
+  if (!environmentConfig) {
+    throw new Error(
+      `❌ Invalid environment: "${environmentRaw}". Must be one of: ${environmentChoices(config).join(", ")}`
+    );
+  }
+  const environment = environmentConfig.name;
+  // The environment's tag suffix from the config is used unless tag-suffix is set
+  const tagSuffix = tagSuffixInput || environmentConfig.tagSuffix;
+
+  // 3. Validate app
+  const validApps = config.apps.map((a) => a.name);
+  if (!validApps.includes(app.toLowerCase())) {
+    throw new Error(`❌ Invalid app: "${app}". Must be: ${validApps.join(", ")}`);
+  }
+
+  // 4. Build Jira ticket pattern
+  const ticketPattern = buildTicketPattern(parseProjectKeys(jiraProjectKeys), jiraTicketPattern);
+
+  // 5. Parse sheet layout (column headers and version cells)
+  const layout = {
+    headers: parseColumnMapping(columnMapping),
+    versionCells: parseVersionCells(versionCells)
+  };
+
+  // 6. Hide and validate credentials (Google credentials are checked before any API call)
+  if (googleCredentialsInput) host.setSecret(googleCredentialsInput);
+  const googleCredentials = usesGoogle
+    ? resolveGoogleCredentials(googleCredentialsInput, workloadIdentityProvider, serviceAccount)
+    : null;
+  for (const secret of googleCredentials ? credentialSecrets(googleCredentials) : []) {
+    host.setSecret(secret);
+  }
+  if (jiraToken) host.setSecret(jiraToken);
+  if (slackWebhookUrl) host.setSecret(slackWebhookUrl);
+  if (teamsWebhookUrl) host.setSecret(teamsWebhookUrl);
+
+  if (workloadIdentityProvider) {
+    core.info(
+      `🔑 Google auth: Workload Identity Federation${serviceAccount ? ` as ${serviceAccount}` : ""}`
+    );
+  }
+  core.info(`🚀 Environment: ${environment} (input: ${environmentRaw})`);
+  core.info(`📱 App: ${app}`);
+  core.info(`📄 Sheet: ${sheetName}${usesGoogle ? "" : ` in ${trackerPath} (${trackerKind})`}`);
+  core.info(`🏷️ Version: ${version || "not provided"}`);
+  if (tagSuffix) core.info(`🏷️ Tag suffix: ${tagSuffix} (${tagScheme} order)`);
+  if (dryRun) core.info("🧪 Dry run: the spreadsheet will not be modified");
+  core.info(`🎫 Jira ticket pattern: ${ticketPattern.source}`);
+  core.info(`🎫 Ticket sources: ${ticketSources.join(", ")}`);
+
+  // 7. Get PR info
+  const { prInfos: foundPRInfos, baseTag: resolvedBaseTag } = await getPRInfo(token, {
+    app,
+    environment,
+    jiraTickets,
+    baseTag,
+    headTag,
+    tagSuffix,
+    tagScheme,
+    ticketPattern,
+    ticketSources,
+    revertedTickets,
+    owner: context.owner,
+    repo: context.repo,
+    prNumber: context.prNumber,
+    retry
+  });
+
+  if (foundPRInfos.length === 0) {
+    core.info("ℹ️ No Jira tickets found. Nothing to sync.");
+    host.setOutputs(buildOutputs(spreadsheetId, foundPRInfos, resolvedBaseTag, null));
+    return;
+  }
+
+  // 8. Enrich with Jira details (optional)
+  const prInfos = jiraToken
+    ? await enrichWithJira(foundPRInfos, { apiUrl: jiraApiUrl, token: jiraToken, user: jiraUser })
+    : foundPRInfos;
+
+  // Reverted tickets are only marked in the sheet; notes, Jira and chat cover shipped changes
+  const shippedPRInfos = prInfos.filter((p) => !p.reverted);
+
+  // 9. Release notes (optional): Markdown in the job summary and output, any format to a file
+  let releaseNotes = "";
+  if (releaseNotesEnabled || releaseNotesFile) {
+    const notesOptions = {
+      version,
+      baseTag: resolvedBaseTag,
+      headTag,
+      environment,
+      jiraBaseUrl,
+      config
+    };
+    releaseNotes = buildMarkdownNotes(shippedPRInfos, notesOptions);
+    await writeReleaseNotesSummary(releaseNotes);
+    if (releaseNotesFile) {
+      writeReleaseNotesFile(
+        releaseNotesFile,
+        buildReleaseNotes(shippedPRInfos, notesOptions, releaseNotesFormat)
+      );
+      core.info(`📝 Wrote ${releaseNotesFormat} release notes to ${releaseNotesFile}`);
+    }
+  }
+
+  // 10. Sync to the tracker (Google Sheets or local files)
+  const tracker = createTracker(trackerKind, {
+    spreadsheetId,
+    credentials: googleCredentials,
+    path: trackerPath,
+    retry
+  });
+  const result = await syncToSheets(tracker, prInfos, {
+    sheetName,
+    version,
+    jiraBaseUrl,
+    ticketPattern,
+    layout,
+    rowPerApp,
+    environmentOrder,
+    allowDowngrade,
+    config,
+    lock: {
+      owner: `${context.runName} (${app} → ${environment})`,
+      timeoutSeconds: lockTimeout,
+      ttlSeconds: lockTtl
+    },
+    audit: {
+      tabName: auditLogTab,
+      baseTag: resolvedBaseTag,
+      headTag,
+      actor: context.actor,
+      runUrl: context.runUrl
+    },
+    archive: {
+      nameTemplate: archiveNameTemplate,
+      timeZone: archiveTimeZone,
+      app,
+      retention: archiveRetention
+    },
+    dryRun
+  });
+
+  // 11. Report planned changes
+  if (result && dryRun) {
+    await writeDryRunSummary(result);
+  }
+
+  // 12. Set outputs for downstream steps
+  host.setOutputs(buildOutputs(spreadsheetId, prInfos, resolvedBaseTag, result, releaseNotes));
+
+  // 13. Transition and comment on Jira issues (optional)
+  const jiraTransition = jiraTransitions[environment] ?? "";
+  const jiraComment = jiraCommentEnvironments.includes(environment);
+  if (result && (jiraTransition || jiraComment)) {
+    if (!jiraToken) {
+      core.warning("⚠️ jira-token is required for Jira transitions and comments. Skipping.");
+    } else if (dryRun) {
+      core.info(
+        `🧪 Dry run: would update ${shippedPRInfos.length} Jira issue(s)` +
+          `${jiraTransition ? ` with transition "${jiraTransition}"` : ""}` +
+          `${jiraComment ? " and a deployment comment" : ""}`
+      );
+    } else {
+      const jiraResults = await updateJiraIssues(
+        shippedPRInfos,
+        { apiUrl: jiraApiUrl, token: jiraToken, user: jiraUser },
+        {
+          transition: jiraTransition,
+          comment: jiraComment,
+          version: version || headTag,
+          config
+        }
+      );
+      await writeJiraSummary(jiraResults);
+    }
+  }
+
+  // 14. Notify chat webhooks (optional)
+  if (result && (slackWebhookUrl || teamsWebhookUrl) && notifyEnvironments.includes(environment)) {
+    if (dryRun) {
+      core.info("🧪 Dry run: skipping chat notifications");
+    } else {
+      await sendNotifications(shippedPRInfos, result, {
+        slackWebhookUrl,
+        teamsWebhookUrl,
+        template: notifyTemplate,
+        spreadsheetId,
+        version: version || headTag,
+        jiraBaseUrl,
+        config
+      });
+    }
+  }
+}
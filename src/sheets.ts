@@ -1,41 +1,73 @@
 import * as core from "@actions/core";
-import { sheets as googleSheets } from "@googleapis/sheets";
-import { GoogleAuth } from "google-auth-library";
-import { PRInfo } from "./types";
+import { sheets as googleSheets, sheets_v4 } from "@googleapis/sheets";
+import {
+  archivesToRetire,
+  DEFAULT_ARCHIVE_NAME,
+  findArchives,
+  formatArchiveName,
+  formatDate,
+  retireOperation
+} from "./archive";
+import { columnLetter, findColumns, findLabelCell, isCellReference, parseCell } from "./columns";
+import { appendAuditLog, buildAuditRows } from "./audit";
+import { googleAuth } from "./auth";
+import { appLabel, archiveEnvironment, DEFAULT_CONFIG, environmentLabel } from "./config";
+import { acquireLock, releaseLock, renewLock } from "./lock";
+import { withRetry } from "./retry";
+import { REVERTED_STATUS } from "./reverts";
+import { DEFAULT_TICKET_PATTERN } from "./tickets";
+import {
+  ActionConfig,
+  ArchiveRetention,
+  CellUpdate,
+  ColumnLayout,
+  CycleRepair,
+  GoogleCredentials,
+  PRInfo,
+  RetryOptions,
+  SheetTab,
+  SyncOptions,
+  SyncPlan,
+  SyncResult,
+  TrackerBackend,
+  VersionCellValue
+} from "./types";
 
 // --- Helpers ---
 
-function getAuth(credentials: string) {
-  return new GoogleAuth({
-    credentials: JSON.parse(credentials),
-    scopes: ["https://www.googleapis.com/auth/spreadsheets"]
-  });
-}
+// Google caps values.batchUpdate payloads; larger change sets are split into chunks
+const MAX_RANGES_PER_BATCH = 500;
 
-async function getAllSheetNames(
-  sheets: ReturnType<typeof googleSheets>,
-  spreadsheetId: string
-): Promise<string[]> {
-  const spreadsheet = await sheets.spreadsheets.get({ spreadsheetId });
-  return spreadsheet.data.sheets?.map((s) => s.properties?.title ?? "") ?? [];
+// Client plus spreadsheet metadata cached for the whole run
+export interface SheetsContext {
+  sheets: ReturnType<typeof googleSheets>;
+  spreadsheetId: string;
+  metadata: sheets_v4.Schema$Spreadsheet | null;
+  // Every Sheets call is retried on rate limits and transient errors
+  retry: RetryOptions;
 }
 
-async function getSheetId(
-  sheets: ReturnType<typeof googleSheets>,
-  spreadsheetId: string,
-  sheetName: string
-): Promise<number | null> {
-  const spreadsheet = await sheets.spreadsheets.get({ spreadsheetId });
-  const sheet = spreadsheet.data.sheets?.find((s) => s.properties?.title === sheetName);
-  return sheet?.properties?.sheetId ?? null;
+// Fetch sheet properties and named ranges once; structural changes reset the cache
+export async function getMetadata(ctx: SheetsContext): Promise<sheets_v4.Schema$Spreadsheet> {
+  if (!ctx.metadata) {
+    const spreadsheet = await withRetry(
+      "Reading the spreadsheet",
+      () =>
+        ctx.sheets.spreadsheets.get({
+          spreadsheetId: ctx.spreadsheetId,
+          fields: "namedRanges,sheets.properties(sheetId,title,index,hidden)"
+        }),
+      ctx.retry
+    );
+    ctx.metadata = spreadsheet.data;
+  }
+  return ctx.metadata;
 }
 
-function getTodayDate(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, "0");
-  const day = String(now.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+async function getSheetId(ctx: SheetsContext, sheetName: string): Promise<number | null> {
+  const metadata = await getMetadata(ctx);
+  const sheet = metadata.sheets?.find((s) => s.properties?.title === sheetName);
+  return sheet?.properties?.sheetId ?? null;
 }
 
 export function getUniqueTabName(baseName: string, existingNames: string[]): string {
@@ -51,28 +83,27 @@ export function getUniqueTabName(baseName: string, existingNames: string[]): str
   return `${baseName} (${counter})`;
 }
 
-// Capitalize environment to match dropdown
-export function formatEnvironment(env: string): string {
-  const map: Record<string, string> = {
-    internal: "Internal",
-    stage: "Stage",
-    production: "Production"
-  };
-  return map[env.toLowerCase()] ?? env;
+// Environment label from the config, to match the dropdown
+export function formatEnvironment(env: string, config: ActionConfig = DEFAULT_CONFIG): string {
+  return environmentLabel(config, env);
 }
 
 // Extract Jira issue key from cell value
 // Handles plain text "ADV-123", display text from HYPERLINK, or raw formula '=HYPERLINK("...", "ADV-123")'
-export function extractIssueKey(cellValue: string): string | null {
-  const upper = cellValue.toUpperCase();
-
+export function extractIssueKey(
+  cellValue: string,
+  ticketPattern: RegExp = DEFAULT_TICKET_PATTERN
+): string | null {
   // Plain text: "ADV-123"
-  if (upper.startsWith("ADV-")) {
-    return upper;
+  const plainMatch = cellValue.trim().match(new RegExp(`^(?:${ticketPattern.source})`, "i"));
+  if (plainMatch) {
+    return plainMatch[0].toUpperCase();
   }
 
   // Raw formula: =HYPERLINK("...", "ADV-123")
-  const formulaMatch = cellValue.match(/HYPERLINK\([^,]+,\s*"(ADV-\d+)"/i);
+  const formulaMatch = cellValue.match(
+    new RegExp(`HYPERLINK\\([^,]+,\\s*"(${ticketPattern.source})"`, "i")
+  );
   if (formulaMatch) {
     return formulaMatch[1].toUpperCase();
   }
@@ -80,356 +111,910 @@ export function extractIssueKey(cellValue: string): string | null {
   return null;
 }
 
-// Capitalize app to match dropdown
-export function formatApp(app: string): string {
-  const map: Record<string, string> = {
-    web: "Web",
-    admin: "Admin",
-    cm: "CM"
-  };
-  return map[app.toLowerCase()] ?? app;
+// App label from the config, to match the dropdown
+export function formatApp(app: string, config: ActionConfig = DEFAULT_CONFIG): string {
+  return appLabel(config, app);
 }
 
 // --- Sheet Operations ---
 
-async function renameSheet(
-  sheets: ReturnType<typeof googleSheets>,
-  spreadsheetId: string,
-  sheetId: number,
-  newName: string
-): Promise<void> {
-  await sheets.spreadsheets.batchUpdate({
-    spreadsheetId,
-    requestBody: {
-      requests: [
-        {
-          updateSheetProperties: {
-            properties: { sheetId, title: newName },
-            fields: "title"
-          }
-        }
-      ]
+// Template name and the names a copy of it gets from sheets.copyTo ("Copy of Template 2")
+export const TEMPLATE_SHEET = "Template";
+export const TEMPLATE_COPY = "Copy of Template";
+const TEMPLATE_COPY_PATTERN = /^Copy of Template(?: \d+)?$/;
+
+async function getSheetTabs(ctx: SheetsContext): Promise<SheetTab[]> {
+  const metadata = await getMetadata(ctx);
+  return (metadata.sheets ?? []).map((s) => ({
+    sheetId: s.properties?.sheetId ?? 0,
+    title: s.properties?.title ?? "",
+    index: s.properties?.index ?? 0,
+    hidden: s.properties?.hidden ?? false
+  }));
+}
+
+// A sheet id not used by any tab, so requests in the same batch can refer to a new tab
+function unusedSheetId(tabs: SheetTab[]): number {
+  return Math.max(0, ...tabs.map((t) => t.sheetId)) + 1;
+}
+
+function renameRequest(sheetId: number, title: string): sheets_v4.Schema$Request {
+  return { updateSheetProperties: { properties: { sheetId, title }, fields: "title" } };
+}
+
+function setCellRequest(sheetId: number, cell: string, value: string): sheets_v4.Schema$Request {
+  const { row, column } = parseCell(cell);
+  return {
+    updateCells: {
+      start: { sheetId, rowIndex: row - 1, columnIndex: column },
+      rows: [{ values: [{ userEnteredValue: { stringValue: value } }] }],
+      fields: "userEnteredValue"
     }
-  });
+  };
 }
 
-async function copySheet(
-  sheets: ReturnType<typeof googleSheets>,
-  spreadsheetId: string,
-  sourceSheetId: number
-): Promise<number> {
-  const response = await sheets.spreadsheets.sheets.copyTo({
-    spreadsheetId,
-    sheetId: sourceSheetId,
-    requestBody: { destinationSpreadsheetId: spreadsheetId }
-  });
-  return response.data.sheetId!;
+// Apply tab changes in one spreadsheets.batchUpdate: either every request succeeds or none does
+async function applyTabRequests(
+  ctx: SheetsContext,
+  requests: sheets_v4.Schema$Request[]
+): Promise<void> {
+  await withRetry(
+    "Updating tabs",
+    () =>
+      ctx.sheets.spreadsheets.batchUpdate({
+        spreadsheetId: ctx.spreadsheetId,
+        requestBody: { requests }
+      }),
+    ctx.retry
+  );
+  ctx.metadata = null;
 }
 
-async function moveSheetToFirst(
-  sheets: ReturnType<typeof googleSheets>,
-  spreadsheetId: string,
-  sheetId: number
+async function getSheetRows(ctx: SheetsContext, sheetName: string): Promise<unknown[][]> {
+  const result = await withRetry(
+    `Reading "${sheetName}"`,
+    () =>
+      ctx.sheets.spreadsheets.values.get({
+        spreadsheetId: ctx.spreadsheetId,
+        range: sheetName
+      }),
+    ctx.retry
+  );
+  return result.data.values ?? [];
+}
+
+// Apply cell writes in as few values.batchUpdate calls as possible
+async function applyCellUpdates(
+  ctx: SheetsContext,
+  sheetName: string,
+  cells: CellUpdate[]
 ): Promise<void> {
-  await sheets.spreadsheets.batchUpdate({
-    spreadsheetId,
-    requestBody: {
-      requests: [
-        {
-          updateSheetProperties: {
-            properties: { sheetId, index: 0 },
-            fields: "index"
+  const data = cells.map((c) => ({
+    range: `${sheetName}!${columnLetter(c.column)}${c.row}`,
+    values: [[c.value]]
+  }));
+
+  for (let i = 0; i < data.length; i += MAX_RANGES_PER_BATCH) {
+    await withRetry(
+      `Writing cells to "${sheetName}"`,
+      () =>
+        ctx.sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId: ctx.spreadsheetId,
+          requestBody: {
+            valueInputOption: "USER_ENTERED",
+            data: data.slice(i, i + MAX_RANGES_PER_BATCH)
           }
+        }),
+      ctx.retry
+    );
+  }
+
+  core.info(
+    `💾 Wrote ${data.length} cells in ${Math.ceil(data.length / MAX_RANGES_PER_BATCH)} batch request(s)`
+  );
+}
+
+// --- Version Management ---
+
+function getRowsCellValue(rows: unknown[][], cell: string): string {
+  const { row, column } = parseCell(cell);
+  return String(rows[row - 1]?.[column] ?? "");
+}
+
+// Resolve a version cell spec to an A1 cell: a cell reference ("H2"), a named range
+// on the sheet, or a label whose value sits directly below it (searched above the header row)
+async function resolveVersionCell(
+  tracker: TrackerBackend,
+  sheetName: string,
+  spec: string,
+  rows: unknown[][],
+  headerRowIndex: number
+): Promise<string> {
+  if (isCellReference(spec)) {
+    return spec.trim().toUpperCase();
+  }
+
+  const namedCell = await tracker.findNamedCell(sheetName, spec.trim());
+  if (namedCell) {
+    return namedCell;
+  }
+
+  const labelCell = findLabelCell(rows, spec, headerRowIndex);
+  if (labelCell) {
+    return labelCell;
+  }
+
+  throw new Error(
+    `❌ Sheet schema error: version cell "${spec}" is not a cell reference, named range or label in "${sheetName}"`
+  );
+}
+
+// --- Sync Planning ---
+
+// Split an App cell ("Web, Admin") into its app labels
+export function parseAppCell(value: string): string[] {
+  return value
+    .split(",")
+    .map((a) => a.trim())
+    .filter((a) => a.length > 0);
+}
+
+// Add an app label to an App cell unless it is already listed (case-insensitive)
+export function mergeAppCell(value: string, app: string): string {
+  const apps = parseAppCell(value);
+  if (apps.some((a) => a.toLowerCase() === app.toLowerCase())) {
+    return apps.join(", ");
+  }
+  return [...apps, app].join(", ");
+}
+
+export const DEFAULT_ENVIRONMENT_ORDER = DEFAULT_CONFIG.environments.map((e) => e.name);
+
+// Position of an environment (canonical name or sheet label) in the promotion order, -1 if unknown
+export function environmentRank(
+  env: string,
+  order: string[],
+  config: ActionConfig = DEFAULT_CONFIG
+): number {
+  const value = env.trim().toLowerCase();
+  return order.findIndex(
+    (e) => e.toLowerCase() === value || formatEnvironment(e, config).toLowerCase() === value
+  );
+}
+
+// Rows are keyed by ticket, or by ticket and app when each app gets its own row
+function rowKey(issueKey: string, app: string, rowPerApp: boolean): string {
+  return rowPerApp ? `${issueKey}|${app.toLowerCase()}` : issueKey;
+}
+
+// Compute every cell change for a sync without touching the spreadsheet
+export function planSync(
+  rows: unknown[][],
+  layout: ColumnLayout,
+  prInfos: PRInfo[],
+  options: Pick<
+    SyncOptions,
+    "jiraBaseUrl" | "ticketPattern" | "rowPerApp" | "environmentOrder" | "allowDowngrade" | "config"
+  >
+): SyncPlan {
+  const { headerRowIndex, columns } = layout;
+  const { jiraBaseUrl, ticketPattern, rowPerApp, environmentOrder, allowDowngrade, config } =
+    options;
+
+  // 1. Build issue (or issue + app) → row map AND find empty rows
+  const dataStartIndex = headerRowIndex + 1;
+  const issueRowMap = new Map<string, number>();
+  const emptyRows: number[] = [];
+
+  core.info(`📊 Scanning rows ${dataStartIndex + 1} to ${rows.length} for existing issues...`);
+
+  for (let i = dataStartIndex; i < rows.length; i++) {
+    const row = rows[i];
+    const cellValue = row?.[columns.issue] ? String(row[columns.issue]).trim() : "";
+
+    // Extract issue key - handles both plain text "ADV-123" and HYPERLINK formulas
+    const issueKey = extractIssueKey(cellValue, ticketPattern);
+    if (issueKey) {
+      // Existing issue
+      const sheetRow = i + 1;
+      if (rowPerApp) {
+        for (const app of parseAppCell(String(row?.[columns.app] ?? ""))) {
+          issueRowMap.set(rowKey(issueKey, app, true), sheetRow);
         }
-      ]
+      } else {
+        issueRowMap.set(issueKey, sheetRow);
+      }
+      core.info(`📍 Found existing: ${issueKey} at row ${sheetRow}`);
+    } else if (cellValue === "") {
+      // Empty row (pre-formatted with dropdowns)
+      emptyRows.push(i + 1);
     }
-  });
+  }
+
+  // Once the empty rows are used up, new tickets go after the last used row
+  let nextRowAfterData = Math.max(rows.length, dataStartIndex) + 1;
+  core.info(
+    emptyRows.length > 0
+      ? `📍 Empty rows: ${emptyRows.join(", ")}`
+      : `📍 No empty row found, will use row ${nextRowAfterData}`
+  );
+
+  core.info(`📊 Total tracked rows: ${issueRowMap.size}`);
+  core.info(`📊 Looking for: ${prInfos.map((p) => p.issue).join(", ")}`);
+
+  // 2. Plan each PR
+  const plan: SyncPlan = { added: [], updated: [], skipped: [], cells: [] };
+  const planned = new Set<string>();
+
+  for (const pr of prInfos) {
+    const issueKey = pr.issue.trim().toUpperCase();
+    const formattedEnv = formatEnvironment(pr.environment, config);
+    const formattedApp = formatApp(pr.app, config);
+    const key = rowKey(issueKey, formattedApp, rowPerApp);
+    if (planned.has(key)) continue;
+    planned.add(key);
+
+    const existingRow = issueRowMap.get(key);
+
+    if (existingRow) {
+      // UPDATE: Change environment column, and add the app to the App column if missing
+      const currentEnv = String(rows[existingRow - 1]?.[columns.environment] ?? "");
+      const currentApp = String(rows[existingRow - 1]?.[columns.app] ?? "");
+      const mergedApp = mergeAppCell(currentApp, formattedApp);
+      const ticket = {
+        issue: issueKey,
+        row: existingRow,
+        fromEnvironment: currentEnv,
+        toEnvironment: formattedEnv,
+        fromApp: currentApp,
+        toApp: mergedApp
+      };
+
+      // Reverted changes did not ship: only the Status is marked, the row stays where it was
+      const currentStatus = String(rows[existingRow - 1]?.[columns.status] ?? "");
+      if (pr.reverted) {
+        core.info(`↩️ Marking ${issueKey} at row ${existingRow} as ${REVERTED_STATUS}`);
+        if (currentStatus !== REVERTED_STATUS) {
+          plan.cells.push({ row: existingRow, column: columns.status, value: REVERTED_STATUS });
+        }
+        plan.updated.push({ ...ticket, toEnvironment: currentEnv, toApp: currentApp });
+        continue;
+      }
+
+      // Only promote (e.g., stage → production) unless downgrades are allowed
+      const isRegression =
+        environmentRank(formattedEnv, environmentOrder, config) <
+        environmentRank(currentEnv, environmentOrder, config);
+      if (isRegression && !allowDowngrade) {
+        core.info(
+          `⏭️ Skipping ${issueKey} at row ${existingRow}: already on ${currentEnv}, not regressing to ${formattedEnv}`
+        );
+        plan.skipped.push(ticket);
+        continue;
+      }
+      if (isRegression) {
+        core.info(
+          `⬇️ Downgrading ${issueKey} at row ${existingRow}: ${currentEnv} → ${formattedEnv}`
+        );
+      }
+
+      core.info(
+        `🔄 Updating ${issueKey} (${formattedApp}) at row ${existingRow} → ${formattedEnv}`
+      );
+
+      plan.cells.push({ row: existingRow, column: columns.environment, value: formattedEnv });
+      if (mergedApp !== currentApp) {
+        plan.cells.push({ row: existingRow, column: columns.app, value: mergedApp });
+      }
+
+      // Clear the reverted mark once a change for the ticket ships again
+      if (currentStatus === REVERTED_STATUS) {
+        const status = pr.jira?.status || "In progress";
+        plan.cells.push({ row: existingRow, column: columns.status, value: status });
+      }
+
+      // Fill in Jira details the row is still missing (manual edits are kept)
+      if (pr.jira) {
+        const jiraCells: Array<[number | undefined, string]> = [
+          [columns.title, pr.jira.summary],
+          [columns.assignee, pr.jira.assignee],
+          [columns.type, pr.jira.issueType]
+        ];
+        for (const [column, value] of jiraCells) {
+          if (column !== undefined && value && !String(rows[existingRow - 1]?.[column] ?? "")) {
+            plan.cells.push({ row: existingRow, column, value });
+          }
+        }
+      }
+      plan.updated.push(ticket);
+    } else {
+      // NEW: Write into the first empty row left, or after the data
+      const targetRow = emptyRows.shift() ?? nextRowAfterData++;
+      core.info(`➕ Adding ${issueKey} (${formattedApp}) at row ${targetRow}`);
+
+      plan.cells.push(
+        {
+          row: targetRow,
+          column: columns.issue,
+          value: `=HYPERLINK("${jiraBaseUrl}/${pr.issue}", "${pr.issue}")` // Issue (linked to Jira)
+        },
+        {
+          row: targetRow,
+          column: columns.status,
+          value: pr.reverted ? REVERTED_STATUS : pr.jira?.status || "In progress"
+        },
+        { row: targetRow, column: columns.assignee, value: pr.jira?.assignee || pr.author },
+        { row: targetRow, column: columns.environment, value: formattedEnv },
+        { row: targetRow, column: columns.app, value: formattedApp }
+      );
+      const title = pr.jira?.summary || pr.title;
+      if (columns.title !== undefined && title) {
+        plan.cells.push({ row: targetRow, column: columns.title, value: title });
+      }
+      if (columns.pr !== undefined && pr.url) {
+        plan.cells.push({ row: targetRow, column: columns.pr, value: pr.url });
+      }
+      if (columns.type !== undefined && pr.jira?.issueType) {
+        plan.cells.push({ row: targetRow, column: columns.type, value: pr.jira.issueType });
+      }
+
+      plan.added.push({
+        issue: issueKey,
+        row: targetRow,
+        fromEnvironment: "",
+        toEnvironment: formattedEnv,
+        fromApp: "",
+        toApp: formattedApp
+      });
+
+      // Track the new row so later entries for the same ticket update it
+      issueRowMap.set(key, targetRow);
+    }
+  }
+
+  return plan;
 }
 
-// --- Version Management ---
+// --- Production Cycle ---
 
-async function setVersion(
-  sheets: ReturnType<typeof googleSheets>,
-  spreadsheetId: string,
+// Requests that archive "Next" and start a new cycle from the Template, in one batch:
+// rename "Next" to the archive name, duplicate the Template as the first tab named "Next",
+// and set its "Last version" cell
+export function buildArchiveRequests(
+  tabs: SheetTab[],
   sheetName: string,
-  cell: string,
-  version: string
-): Promise<void> {
-  await sheets.spreadsheets.values.update({
-    spreadsheetId,
-    range: `${sheetName}!${cell}`,
-    valueInputOption: "USER_ENTERED",
-    requestBody: {
-      values: [[version]]
+  archiveName: string,
+  lastVersion: VersionCellValue | null
+): sheets_v4.Schema$Request[] {
+  const next = tabs.find((t) => t.title === sheetName);
+  const template = tabs.find((t) => t.title === TEMPLATE_SHEET);
+  if (!next || !template) {
+    throw new Error(`❌ Sheets "${sheetName}" and "${TEMPLATE_SHEET}" are required to archive`);
+  }
+
+  const newSheetId = unusedSheetId(tabs);
+  const requests: sheets_v4.Schema$Request[] = [
+    renameRequest(next.sheetId, archiveName),
+    {
+      duplicateSheet: {
+        sourceSheetId: template.sheetId,
+        insertSheetIndex: 0,
+        newSheetId,
+        newSheetName: sheetName
+      }
     }
-  });
+  ];
+  if (lastVersion) {
+    requests.push(setCellRequest(newSheetId, lastVersion.cell, lastVersion.value));
+  }
+  return requests;
 }
 
-async function getCellValue(
-  sheets: ReturnType<typeof googleSheets>,
-  spreadsheetId: string,
+// Requests that recreate "Next" after an interrupted cycle, in one batch: rename the leftover
+// Template copy, move it to the first position and set its "Last version"
+export function buildRestoreRequests(
   sheetName: string,
-  cell: string
-): Promise<string> {
-  const result = await sheets.spreadsheets.values.get({
-    spreadsheetId,
-    range: `${sheetName}!${cell}`
-  });
-  return String(result.data.values?.[0]?.[0] ?? "");
+  repair: CycleRepair,
+  lastVersion: VersionCellValue | null
+): sheets_v4.Schema$Request[] {
+  const { sheetId } = repair.templateCopy;
+  const requests: sheets_v4.Schema$Request[] = [
+    renameRequest(sheetId, sheetName),
+    { updateSheetProperties: { properties: { sheetId, index: 0 }, fields: "index" } }
+  ];
+  if (lastVersion) {
+    requests.push(setCellRequest(sheetId, lastVersion.cell, lastVersion.value));
+  }
+  return requests;
 }
 
-// --- Production Cycle ---
+// Requests that hide or delete tabs, in one batch
+export function buildRetireRequests(
+  tabs: SheetTab[],
+  action: "hide" | "delete"
+): sheets_v4.Schema$Request[] {
+  return tabs.map((t) =>
+    action === "hide"
+      ? {
+          updateSheetProperties: {
+            properties: { sheetId: t.sheetId, hidden: true },
+            fields: "hidden"
+          }
+        }
+      : { deleteSheet: { sheetId: t.sheetId } }
+  );
+}
 
-async function handleProductionCycle(
-  sheets: ReturnType<typeof googleSheets>,
-  spreadsheetId: string,
-  sheetName: string
-): Promise<void> {
-  const today = getTodayDate();
+// A checked production cycle, ready to run once the PR updates are written
+interface ProductionCycle {
+  archiveName: string;
+  lastVersion: VersionCellValue | null;
+  // Archives past the retention count, the new one included
+  retired: string[];
+}
 
-  core.info("🏭 Production deploy detected");
+// Checks every precondition of the cycle before anything is written; null when it cannot run
+async function planProductionCycle(
+  tracker: TrackerBackend,
+  options: SyncOptions,
+  currentVersion: string,
+  result: SyncResult
+): Promise<ProductionCycle | null> {
+  const { sheetName, layout, archive } = options;
 
-  // 1. Read current "New version" (H2) before archiving
-  const currentVersion = await getCellValue(sheets, spreadsheetId, sheetName, "H2");
-  core.info(`🏷️ Current version (H2): ${currentVersion}`);
+  core.info("🏭 Production deploy detected");
+  core.info(`🏷️ Current version: ${currentVersion}`);
 
-  // 2. Get all existing sheet names
-  const existingNames = await getAllSheetNames(sheets, spreadsheetId);
+  // 1. Check the sheet and the Template exist
+  const tabs = await tracker.listTabs();
+  const existingNames = tabs.map((t) => t.title);
   core.info(`📑 Existing sheets: ${existingNames.join(", ")}`);
 
-  // 3. Generate unique archive name
-  const archiveName = getUniqueTabName(today, existingNames);
+  const missing = [sheetName, TEMPLATE_SHEET].filter((name) => !existingNames.includes(name));
+  if (missing.length > 0) {
+    core.setFailed(`❌ Sheet(s) ${missing.map((name) => `"${name}"`).join(", ")} not found`);
+    return null;
+  }
+
+  // 2. Generate unique archive name from the template
+  const baseName = formatArchiveName(archive.nameTemplate, {
+    date: formatDate(new Date(), archive.timeZone),
+    version: currentVersion,
+    app: formatApp(archive.app, options.config)
+  });
+  const archiveName = getUniqueTabName(baseName, existingNames);
   core.info(`📅 Archive name: "${archiveName}"`);
 
-  // 4. Get "Next" sheet ID
-  const nextSheetId = await getSheetId(sheets, spreadsheetId, sheetName);
-  if (nextSheetId === null) {
-    core.setFailed(`❌ Sheet "${sheetName}" not found`);
-    return;
+  // 3. Resolve "Last version" cell from the Template (the new "Next" is a copy of it)
+  let lastVersion: VersionCellValue | null = null;
+  if (currentVersion) {
+    const templateRows = await tracker.readRows(TEMPLATE_SHEET);
+    const templateLayout = findColumns(templateRows, layout.headers);
+    const cell = await resolveVersionCell(
+      tracker,
+      TEMPLATE_SHEET,
+      layout.versionCells["last-version"],
+      templateRows,
+      templateLayout.headerRowIndex
+    );
+    lastVersion = { cell, value: currentVersion };
+    result.versions.push({
+      sheet: sheetName,
+      cell,
+      from: getRowsCellValue(templateRows, cell),
+      to: currentVersion
+    });
   }
 
-  // 5. Get "Template" sheet ID
-  const templateSheetId = await getSheetId(sheets, spreadsheetId, "Template");
-  if (templateSheetId === null) {
-    core.setFailed('❌ Sheet "Template" not found');
-    return;
+  result.archiveSheetId = tabs.find((t) => t.title === sheetName)?.sheetId ?? null;
+  result.tabs.push(
+    { action: "rename", from: sheetName, to: archiveName },
+    { action: "copy", from: TEMPLATE_SHEET, to: sheetName },
+    { action: "move", from: sheetName, to: "first position" }
+  );
+
+  // 4. Archives past the retention count, the new one included
+  const archivedTabs = tabs.map((t) => (t.title === sheetName ? { ...t, title: archiveName } : t));
+  const retired = archivesToRetire(archivedTabs, archive.nameTemplate, archive.retention).map(
+    (t) => t.title
+  );
+  result.tabs.push(...retired.map((title) => retireOperation(title, archive.retention)));
+
+  return { archiveName, lastVersion, retired };
+}
+
+// Returns the archive tab name
+async function handleProductionCycle(
+  tracker: TrackerBackend,
+  options: SyncOptions,
+  cycle: ProductionCycle
+): Promise<string> {
+  const { sheetName, archive } = options;
+  const { archiveName, lastVersion, retired } = cycle;
+
+  if (options.dryRun) {
+    core.info(`🧪 Dry run: would archive "${sheetName}" as "${archiveName}"`);
+    if (retired.length > 0) {
+      core.info(`🧪 Dry run: would ${archive.retention.action} ${retired.join(", ")}`);
+    }
+    return archiveName;
   }
 
-  // 6. Rename "Next" to archive name
-  await renameSheet(sheets, spreadsheetId, nextSheetId, archiveName);
+  // 1. Archive and start the new cycle in a single batch
+  await tracker.archiveCycle(sheetName, archiveName, lastVersion);
   core.info(`✅ Renamed "${sheetName}" → "${archiveName}"`);
+  core.info(`✅ Copied Template as new "${sheetName}" in first position`);
+  if (lastVersion) {
+    core.info(
+      `✅ Set "Last version" (${lastVersion.cell}) in new "${sheetName}" to: ${lastVersion.value}`
+    );
+  }
+
+  // 2. Retire old archives; the new cycle stands even when this fails
+  if (retired.length > 0) {
+    await retireArchives(tracker, retired, archive.retention);
+  }
+
+  return archiveName;
+}
+
+async function retireArchives(
+  tracker: TrackerBackend,
+  titles: string[],
+  retention: ArchiveRetention
+): Promise<void> {
+  try {
+    await tracker.retireTabs(titles, retention);
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not ${retention.action} old archives ${titles.join(", ")}: ${(error as Error).message}`
+    );
+    return;
+  }
+  const done = { hide: "Hid", delete: "Deleted", move: "Moved" }[retention.action];
+  const to = retention.action === "move" ? ` to ${retention.destination}` : "";
+  core.info(`🗄️ ${done} ${titles.length} old archive(s)${to}: ${titles.join(", ")}`);
+}
+
+// Detect a half-finished cycle, or null when the tabs look consistent. An interrupted
+// archive leaves its Template copy behind; without one, a missing sheet is reported as such
+export function findCycleRepair(
+  tabs: SheetTab[],
+  sheetName: string,
+  archiveNameTemplate = DEFAULT_ARCHIVE_NAME
+): CycleRepair | null {
+  const titles = tabs.map((t) => t.title);
+  if (titles.includes(sheetName) || !titles.includes(TEMPLATE_SHEET)) {
+    return null;
+  }
+
+  const templateCopy = tabs.find((t) => TEMPLATE_COPY_PATTERN.test(t.title));
+  const archives = findArchives(tabs, archiveNameTemplate);
+  if (!templateCopy || archives.length === 0) {
+    return null;
+  }
 
-  // 7. Copy "Template" as new sheet
-  const newSheetId = await copySheet(sheets, spreadsheetId, templateSheetId);
-  core.info("✅ Copied Template");
+  return { archive: archives[0], templateCopy };
+}
 
-  // 8. Rename the copy to "Next"
-  await renameSheet(sheets, spreadsheetId, newSheetId, sheetName);
-  core.info(`✅ Renamed copy → "${sheetName}"`);
+// Finish a cycle interrupted by an earlier run; returns false in a dry run that needed a repair
+async function repairProductionCycle(
+  tracker: TrackerBackend,
+  options: SyncOptions,
+  result: SyncResult
+): Promise<boolean> {
+  const { sheetName, layout } = options;
+  const tabs = await tracker.listTabs();
+  const repair = findCycleRepair(tabs, sheetName, options.archive.nameTemplate);
+  if (!repair) {
+    return true;
+  }
 
-  // 9. Move new "Next" to first position
-  await moveSheetToFirst(sheets, spreadsheetId, newSheetId);
-  core.info('✅ Moved new "Next" to first tab');
+  core.warning(
+    `⚠️ "${sheetName}" is missing after archiving "${repair.archive.title}". Finishing the interrupted production cycle...`
+  );
 
-  // 10. Set "Last version deployed" (A2) in new "Next" to the old H2 value
-  if (currentVersion) {
-    await setVersion(sheets, spreadsheetId, sheetName, "A2", currentVersion);
-    core.info(`✅ Set "Last version" (A2) in new "Next" to: ${currentVersion}`);
+  // 1. The archived "New version" becomes the new "Last version"
+  const archiveRows = await tracker.readRows(repair.archive.title);
+  const archiveLayout = findColumns(archiveRows, layout.headers);
+  const archivedVersionCell = await resolveVersionCell(
+    tracker,
+    repair.archive.title,
+    layout.versionCells["new-version"],
+    archiveRows,
+    archiveLayout.headerRowIndex
+  );
+  const archivedVersion = getRowsCellValue(archiveRows, archivedVersionCell);
+
+  const templateRows = await tracker.readRows(TEMPLATE_SHEET);
+  const templateLayout = findColumns(templateRows, layout.headers);
+  const lastVersionCell = await resolveVersionCell(
+    tracker,
+    TEMPLATE_SHEET,
+    layout.versionCells["last-version"],
+    templateRows,
+    templateLayout.headerRowIndex
+  );
+
+  // 2. The leftover Template copy becomes the new sheet
+  result.tabs.push(
+    { action: "rename", from: repair.templateCopy.title, to: sheetName },
+    { action: "move", from: sheetName, to: "first position" }
+  );
+  const lastVersion = archivedVersion ? { cell: lastVersionCell, value: archivedVersion } : null;
+  if (lastVersion) {
+    result.versions.push({
+      sheet: sheetName,
+      cell: lastVersionCell,
+      from: getRowsCellValue(templateRows, lastVersionCell),
+      to: archivedVersion
+    });
   }
+
+  if (options.dryRun) {
+    core.info(`🧪 Dry run: would restore "${sheetName}"; the sync needs it, so it is skipped`);
+    return false;
+  }
+
+  await tracker.restoreCycle(sheetName, repair, lastVersion);
+  core.info(`✅ Restored "${sheetName}" after the interrupted production cycle`);
+  return true;
 }
 
 // --- Sync PRs to Sheet ---
 
-async function syncPRsToSheet(
-  sheets: ReturnType<typeof googleSheets>,
-  spreadsheetId: string,
-  sheetName: string,
+// Plans the PR updates without writing them; returns the sheet's "New version" after the sync,
+// or null when the sync failed
+async function planPRUpdates(
+  tracker: TrackerBackend,
   prInfos: PRInfo[],
-  version: string,
-  jiraBaseUrl: string
-): Promise<void> {
-  const range = `${sheetName}!A:K`;
+  options: SyncOptions,
+  result: SyncResult
+): Promise<string | null> {
+  const { sheetName, version, layout } = options;
 
   // 1. Debug info
-  core.info(`🔍 Spreadsheet ID: ${spreadsheetId}`);
+  core.info(`🔍 Tracker: ${tracker.location}`);
   core.info(`🔍 Sheet name: ${sheetName}`);
-  core.info(`🔍 Range: ${range}`);
 
   // 2. Verify sheet exists
   try {
-    const sheetNames = await getAllSheetNames(sheets, spreadsheetId);
+    const sheetNames = (await tracker.listTabs()).map((t) => t.title);
     core.info(`📑 Available sheets: ${sheetNames.join(", ")}`);
 
     if (!sheetNames.includes(sheetName)) {
       core.setFailed(`❌ Sheet "${sheetName}" not found. Available: ${sheetNames.join(", ")}`);
-      return;
+      return null;
     }
   } catch (error) {
     core.setFailed(
-      `❌ Cannot access spreadsheet. Check:\n` +
-        `  - Spreadsheet ID is correct\n` +
+      `❌ Cannot access the tracker. Check:\n` +
+        `  - Spreadsheet ID (or tracker-path) is correct\n` +
         `  - Service account has access\n` +
         `  - Error: ${(error as Error).message}`
     );
-    return;
-  }
-
-  // 3. Set version in H2 (if provided)
-  if (version) {
-    await setVersion(sheets, spreadsheetId, sheetName, "H2", version);
-    core.info(`🏷️ Set version (H2): ${version}`);
+    return null;
   }
 
-  // 4. Read existing data
+  // 3. Read existing data
   core.info("📖 Reading existing sheet data...");
-  const existing = await sheets.spreadsheets.values.get({
-    spreadsheetId,
-    range
-  });
-
-  const existingRows = existing.data.values ?? [];
+  const existingRows = await tracker.readRows(sheetName);
   core.info(`📄 Found ${existingRows.length} existing rows`);
 
-  // 5. Find header row dynamically
-  const ISSUE_COL = 0;
-  let headerRowIndex = -1;
-
-  for (let i = 0; i < existingRows.length; i++) {
-    const firstCell = String(existingRows[i]?.[ISSUE_COL] ?? "")
-      .trim()
-      .toLowerCase();
-    if (firstCell === "issue") {
-      headerRowIndex = i;
-      core.info(`📍 Found header row at sheet row ${i + 1}`);
-      break;
-    }
-  }
-
-  if (headerRowIndex === -1) {
-    core.warning("⚠️ Could not find header row with 'Issue' in column A");
-    core.warning("⚠️ Dumping first 10 rows for debugging:");
-    for (let i = 0; i < Math.min(10, existingRows.length); i++) {
-      core.warning(`  Row ${i + 1}: ${JSON.stringify(existingRows[i])}`);
-    }
-    headerRowIndex = 0;
-  }
-
-  // 6. Build issue → row map AND find first empty row
-  const dataStartIndex = headerRowIndex + 1;
-  const issueRowMap = new Map<string, number>();
-  let firstEmptyRow = -1;
-
+  // 4. Locate header row and columns by header name
+  const columnLayout = findColumns(existingRows, layout.headers);
+  core.info(`📍 Found header row at sheet row ${columnLayout.headerRowIndex + 1}`);
   core.info(
-    `📊 Scanning rows ${dataStartIndex + 1} to ${existingRows.length} for existing issues...`
+    `📍 Columns: ${Object.entries(columnLayout.columns)
+      .map(([field, index]) => `${field}=${columnLetter(index as number)}`)
+      .join(", ")}`
   );
 
-  for (let i = dataStartIndex; i < existingRows.length; i++) {
-    const row = existingRows[i];
-    const cellValue = row?.[ISSUE_COL] ? String(row[ISSUE_COL]).trim() : "";
-
-    // Extract issue key - handles both plain text "ADV-123" and HYPERLINK formulas
-    const issueKey = extractIssueKey(cellValue);
-    if (issueKey) {
-      // Existing issue
-      const sheetRow = i + 1;
-      issueRowMap.set(issueKey, sheetRow);
-      core.info(`📍 Found existing: ${issueKey} at row ${sheetRow}`);
-    } else if (cellValue === "" && firstEmptyRow === -1) {
-      // First empty row (pre-formatted with dropdowns)
-      firstEmptyRow = i + 1;
-      core.info(`📍 First empty row: ${firstEmptyRow}`);
-    }
+  // 5. Plan all cell changes
+  const plan = planSync(existingRows, columnLayout, prInfos, options);
+  result.plan = plan;
+
+  // 6. Include "New version" in the same batch (if provided)
+  const versionCell = await resolveVersionCell(
+    tracker,
+    sheetName,
+    layout.versionCells["new-version"],
+    existingRows,
+    columnLayout.headerRowIndex
+  );
+  const previousVersion = getRowsCellValue(existingRows, versionCell);
+  if (version) {
+    plan.cells.unshift({ ...parseCell(versionCell), value: version });
+    result.versions.push({
+      sheet: sheetName,
+      cell: versionCell,
+      from: previousVersion,
+      to: version
+    });
+    core.info(`🏷️ Set version (${versionCell}): ${version}`);
   }
 
-  // If no empty row found in existing range, use next row after data
-  if (firstEmptyRow === -1) {
-    firstEmptyRow = existingRows.length + 1;
-    core.info(`📍 No empty row found, will use row ${firstEmptyRow}`);
+  return version || previousVersion;
+}
+
+async function applyPRUpdates(
+  tracker: TrackerBackend,
+  options: SyncOptions,
+  plan: SyncPlan
+): Promise<void> {
+  if (options.dryRun) {
+    core.info(`🧪 Dry run: skipping ${plan.cells.length} cell writes`);
+  } else {
+    await tracker.writeCells(options.sheetName, plan.cells);
   }
 
-  core.info(`📊 Total tracked issues: ${issueRowMap.size}`);
-  core.info(`📊 Looking for: ${prInfos.map((p) => p.issue).join(", ")}`);
+  core.info(`✅ Done! Added ${plan.added.length} new, updated ${plan.updated.length} existing`);
+}
 
-  // 7. Process each PR
-  let newCount = 0;
-  let updateCount = 0;
+// --- Google Sheets Backend ---
 
-  for (const pr of prInfos) {
-    const issueKey = pr.issue.trim().toUpperCase();
-    const existingRow = issueRowMap.get(issueKey);
-    const formattedEnv = formatEnvironment(pr.environment);
-    const formattedApp = formatApp(pr.app);
+// Copy tabs to another spreadsheet under their own names (made unique there)
+async function copyTabsTo(
+  ctx: SheetsContext,
+  tabs: SheetTab[],
+  destinationId: string
+): Promise<void> {
+  const destination: SheetsContext = { ...ctx, spreadsheetId: destinationId, metadata: null };
+  const names = (await getSheetTabs(destination)).map((t) => t.title);
+  const renames: sheets_v4.Schema$Request[] = [];
+  for (const tab of tabs) {
+    // Not retried: a repeated copy would leave a duplicate tab in the destination
+    const { data } = await ctx.sheets.spreadsheets.sheets.copyTo({
+      spreadsheetId: ctx.spreadsheetId,
+      sheetId: tab.sheetId,
+      requestBody: { destinationSpreadsheetId: destinationId }
+    });
+    const title = getUniqueTabName(tab.title, names);
+    names.push(title);
+    renames.push(renameRequest(data.sheetId ?? 0, title));
+  }
+  await applyTabRequests(destination, renames);
+}
 
-    if (existingRow) {
-      // UPDATE: Only change environment column (D)
-      core.info(`🔄 Updating ${issueKey} at row ${existingRow} → ${formattedEnv}`);
-
-      await sheets.spreadsheets.values.update({
-        spreadsheetId,
-        range: `${sheetName}!D${existingRow}`,
-        valueInputOption: "USER_ENTERED",
-        requestBody: {
-          values: [[formattedEnv]]
-        }
-      });
+// Hide or delete tabs, or move them to the destination spreadsheet (copy, then delete)
+async function retireSheetTabs(
+  ctx: SheetsContext,
+  titles: string[],
+  retention: ArchiveRetention
+): Promise<void> {
+  const tabs = (await getSheetTabs(ctx)).filter((t) => titles.includes(t.title));
+  if (retention.action === "move") {
+    await copyTabsTo(ctx, tabs, retention.destination);
+  }
+  await applyTabRequests(
+    ctx,
+    buildRetireRequests(tabs, retention.action === "hide" ? "hide" : "delete")
+  );
+}
 
-      updateCount++;
-    } else {
-      // NEW: Write into first available empty row
-      const targetRow = firstEmptyRow + newCount;
-      core.info(`➕ Adding ${issueKey} at row ${targetRow}`);
-
-      await sheets.spreadsheets.values.update({
-        spreadsheetId,
-        range: `${sheetName}!A${targetRow}:E${targetRow}`,
-        valueInputOption: "USER_ENTERED",
-        requestBody: {
-          values: [
-            [
-              `=HYPERLINK("${jiraBaseUrl}/${pr.issue}", "${pr.issue}")`, // A: Issue (linked to Jira)
-              "In progress", // B: Status
-              pr.author, // C: Assignee
-              formattedEnv, // D: Environment
-              formattedApp // E: App
-            ]
-          ]
-        }
-      });
+// Cell of a named range on the sheet, null when the spreadsheet has none by that name
+async function findNamedRangeCell(
+  ctx: SheetsContext,
+  sheetName: string,
+  name: string
+): Promise<string | null> {
+  const metadata = await getMetadata(ctx);
+  const sheetId = await getSheetId(ctx, sheetName);
+  const namedRange = metadata.namedRanges?.find(
+    // The API leaves sheetId out of a GridRange when it is 0
+    (r) => r.name?.toLowerCase() === name.toLowerCase() && (r.range?.sheetId ?? 0) === sheetId
+  );
+  if (!namedRange?.range) {
+    return null;
+  }
+  const column = columnLetter(namedRange.range.startColumnIndex ?? 0);
+  return `${column}${(namedRange.range.startRowIndex ?? 0) + 1}`;
+}
 
-      // Track the new issue
-      issueRowMap.set(issueKey, targetRow);
+export function googleSheetsTracker(
+  credentials: GoogleCredentials,
+  spreadsheetId: string,
+  retry: RetryOptions
+): TrackerBackend {
+  const ctx: SheetsContext = {
+    sheets: googleSheets({ version: "v4", auth: googleAuth(credentials) }),
+    spreadsheetId,
+    metadata: null,
+    retry
+  };
 
-      newCount++;
+  return {
+    location: `https://docs.google.com/spreadsheets/d/${spreadsheetId}`,
+    listTabs: () => getSheetTabs(ctx),
+    readRows: (tab) => getSheetRows(ctx, tab),
+    findNamedCell: (tab, name) => findNamedRangeCell(ctx, tab, name),
+    writeCells: (tab, cells) => applyCellUpdates(ctx, tab, cells),
+    archiveCycle: async (sheetName, archiveName, lastVersion) => {
+      const tabs = await getSheetTabs(ctx);
+      await applyTabRequests(ctx, buildArchiveRequests(tabs, sheetName, archiveName, lastVersion));
+    },
+    restoreCycle: (sheetName, repair, lastVersion) =>
+      applyTabRequests(ctx, buildRestoreRequests(sheetName, repair, lastVersion)),
+    retireTabs: (tabs, retention) => retireSheetTabs(ctx, tabs, retention),
+    appendAuditRows: (tab, rows) => appendAuditLog(ctx, tab, rows),
+    lock: async (options) => {
+      const lockId = await acquireLock(ctx, options);
+      return {
+        renew: () => renewLock(ctx, lockId, options),
+        release: () => releaseLock(ctx, lockId)
+      };
     }
-  }
-
-  core.info(`✅ Done! Added ${newCount} new, updated ${updateCount} existing`);
+  };
 }
 
 // --- Main Export ---
 
+// Returns what was (or, in a dry run, would be) changed, or null when the sync failed
 export async function syncToSheets(
-  credentials: string,
-  spreadsheetId: string,
-  sheetName: string,
+  tracker: TrackerBackend,
   prInfos: PRInfo[],
-  version: string,
-  jiraBaseUrl: string
-): Promise<void> {
-  // 1. Authenticate
-  const auth = getAuth(credentials);
-  const sheets = googleSheets({ version: "v4", auth });
+  options: SyncOptions
+): Promise<SyncResult | null> {
+  const result: SyncResult = {
+    sheetName: options.sheetName,
+    dryRun: options.dryRun,
+    plan: { added: [], updated: [], skipped: [], cells: [] },
+    versions: [],
+    tabs: [],
+    archiveName: null,
+    archiveSheetId: null
+  };
 
-  // 2. Get current environment
+  // 1. Get current environment
   const environment = prInfos[0].environment;
 
-  // 3. Update PRs in "Next" sheet
-  await syncPRsToSheet(sheets, spreadsheetId, sheetName, prInfos, version, jiraBaseUrl);
+  // 2. Lock the tracker so concurrent runs cannot interleave syncs and archiving
+  const lock = options.dryRun ? null : await tracker.lock(options.lock);
+  try {
+    // 3. Finish a production cycle an earlier run left half-done
+    if (!(await repairProductionCycle(tracker, options, result))) {
+      return result;
+    }
 
-  // 4. If production: archive and create new cycle
-  if (environment === "production") {
-    await handleProductionCycle(sheets, spreadsheetId, sheetName);
+    // 4. Plan the PR updates in "Next" sheet
+    const currentVersion = await planPRUpdates(tracker, prInfos, options, result);
+    if (currentVersion === null) {
+      return null;
+    }
+
+    // 5. If the environment closes the cycle (production by default), check the archive can
+    // run before anything is written
+    let cycle: ProductionCycle | null = null;
+    if (environment === archiveEnvironment(options.config)) {
+      cycle = await planProductionCycle(tracker, options, currentVersion, result);
+      if (!cycle) {
+        return null;
+      }
+    }
+
+    // 6. Update PRs in "Next" sheet, then archive and start a new cycle
+    await applyPRUpdates(tracker, options, result.plan);
+    if (cycle) {
+      // The sync may have taken a while: make sure no other run took the lock over
+      if (lock) await lock.renew();
+      result.archiveName = await handleProductionCycle(tracker, options, cycle);
+    }
+
+    // 7. Record the deployment in the audit log
+    const auditRows = buildAuditRows(prInfos, options.version, options.audit, options.config);
+    if (options.dryRun) {
+      core.info(`🧪 Dry run: would log ${auditRows.length} row(s) to "${options.audit.tabName}"`);
+    } else {
+      try {
+        await tracker.appendAuditRows(options.audit.tabName, auditRows);
+      } catch (error) {
+        core.warning(`⚠️ Could not write the audit log: ${(error as Error).message}`);
+      }
+    }
+  } finally {
+    if (lock) await lock.release();
   }
 
-  core.info(`📄 Sheet: https://docs.google.com/spreadsheets/d/${spreadsheetId}`);
+  core.info(`📄 Sheet: ${tracker.location}`);
+  return result;
 }
@@ -0,0 +1,112 @@
+import * as core from "@actions/core";
+import { JiraUpdateResult, SyncResult } from "./types";
+
+// One row per change: [change, target, from, to]
+export function buildChangeRows(result: SyncResult): string[][] {
+  const rows: string[][] = [];
+
+  for (const v of result.versions) {
+    rows.push(["Set version", `${v.sheet}!${v.cell}`, v.from, v.to]);
+  }
+  for (const t of result.plan.added) {
+    rows.push([
+      "Add row",
+      `${result.sheetName} row ${t.row} (${t.issue}, ${t.toApp})`,
+      "",
+      t.toEnvironment
+    ]);
+  }
+  for (const t of result.plan.updated) {
+    rows.push([
+      "Update environment",
+      `${result.sheetName} row ${t.row} (${t.issue})`,
+      t.fromEnvironment,
+      t.toEnvironment
+    ]);
+    if (t.fromApp !== t.toApp) {
+      rows.push([
+        "Update app",
+        `${result.sheetName} row ${t.row} (${t.issue})`,
+        t.fromApp,
+        t.toApp
+      ]);
+    }
+  }
+  for (const t of result.plan.skipped) {
+    rows.push([
+      "Skip regression",
+      `${result.sheetName} row ${t.row} (${t.issue})`,
+      t.fromEnvironment,
+      t.toEnvironment
+    ]);
+  }
+  for (const t of result.tabs) {
+    const change = {
+      rename: "Rename tab",
+      copy: "Copy tab",
+      move: "Move tab",
+      hide: "Hide tab",
+      delete: "Delete tab"
+    }[t.action];
+    rows.push([change, "Tab", t.from, t.to]);
+  }
+
+  return rows;
+}
+
+// The job summary file only exists in GitHub Actions; the CLI only logs
+function hasJobSummary(): boolean {
+  return Boolean(process.env.GITHUB_STEP_SUMMARY);
+}
+
+// Log the planned change set and add it to the job summary as a table
+export async function writeDryRunSummary(result: SyncResult): Promise<void> {
+  const rows = buildChangeRows(result);
+
+  core.info(`🧪 Dry run: ${rows.length} planned change(s), nothing was written`);
+  for (const [change, target, from, to] of rows) {
+    core.info(`  ${change}: ${target}${from ? ` "${from}" →` : " →"} "${to}"`);
+  }
+  if (!hasJobSummary()) return;
+
+  await core.summary
+    .addHeading(`🧪 Dry run: planned changes to "${result.sheetName}"`, 3)
+    .addTable([
+      [
+        { data: "Change", header: true },
+        { data: "Target", header: true },
+        { data: "From", header: true },
+        { data: "To", header: true }
+      ],
+      ...rows
+    ])
+    .write();
+}
+
+// Add per-ticket Jira transition and comment results to the job summary
+export async function writeJiraSummary(results: JiraUpdateResult[]): Promise<void> {
+  const failed = results.filter((r) => !r.ok).length;
+  core.info(`🎫 Jira updates: ${results.length - failed} succeeded, ${failed} failed`);
+  if (!hasJobSummary()) return;
+
+  await core.summary
+    .addHeading("🎫 Jira updates", 3)
+    .addTable([
+      [
+        { data: "Ticket", header: true },
+        { data: "Action", header: true },
+        { data: "Result", header: true }
+      ],
+      ...results.map((r) => [r.issue, r.action, `${r.ok ? "✅" : "❌"} ${r.message}`])
+    ])
+    .write();
+}
+
+// Add the Markdown release notes to the job summary (logged outside GitHub Actions)
+export async function writeReleaseNotesSummary(markdown: string): Promise<void> {
+  if (!hasJobSummary()) {
+    core.info(markdown);
+    return;
+  }
+  await core.summary.addRaw(markdown, true).write();
+}
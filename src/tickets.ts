@@ -0,0 +1,75 @@
+import { TicketSource } from "./types";
+
+// Jira project keys recognised when no input is given
+export const DEFAULT_PROJECT_KEYS = ["ADV"];
+
+// Jira project keys are uppercase letters, digits and underscores, starting with a letter
+const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+// Parse a comma-separated list of Jira project keys (e.g., "ADV, WEB")
+export function parseProjectKeys(input: string): string[] {
+  const keys = input
+    .split(",")
+    .map((k) => k.trim().toUpperCase())
+    .filter((k) => k.length > 0);
+
+  for (const key of keys) {
+    if (!PROJECT_KEY_PATTERN.test(key)) {
+      throw new Error(
+        `❌ Invalid Jira project key: "${key}". Keys must start with a letter and contain only letters, digits or underscores`
+      );
+    }
+  }
+
+  return keys.length > 0 ? [...new Set(keys)] : DEFAULT_PROJECT_KEYS;
+}
+
+// Build the pattern used to find Jira tickets in commits, PRs and sheet cells
+// A custom pattern takes precedence over the project keys (e.g., "[A-Z]{2,10}-\d+")
+export function buildTicketPattern(projectKeys: string[], customPattern = ""): RegExp {
+  if (customPattern.trim() !== "") {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(customPattern.trim(), "i");
+    } catch (error) {
+      throw new Error(
+        `❌ Invalid Jira ticket pattern "${customPattern}": ${(error as Error).message}`
+      );
+    }
+    if (pattern.test("")) {
+      throw new Error(`❌ Invalid Jira ticket pattern "${customPattern}": matches empty text`);
+    }
+    return pattern;
+  }
+
+  const keys = projectKeys.length > 0 ? projectKeys : DEFAULT_PROJECT_KEYS;
+  // Lookbehind keeps "DV" from matching inside "ADV-123" while allowing "feature_ADV-123"
+  return new RegExp(`(?<![A-Z])(?:${keys.join("|")})-\\d+`, "i");
+}
+
+export const DEFAULT_TICKET_PATTERN = buildTicketPattern(DEFAULT_PROJECT_KEYS);
+
+// Check whether a value is exactly one Jira ticket (e.g., "ADV-123")
+export function isTicketKey(value: string, pattern: RegExp = DEFAULT_TICKET_PATTERN): boolean {
+  return new RegExp(`^(?:${pattern.source})$`, "i").test(value.trim());
+}
+
+export const TICKET_SOURCES: TicketSource[] = ["title", "body", "branch", "commits"];
+
+// Parse the ticket-sources input (e.g., "title, branch"); defaults to the PR title only
+export function parseTicketSources(input: string): TicketSource[] {
+  const sources = input
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => s.length > 0);
+
+  for (const source of sources) {
+    if (!TICKET_SOURCES.includes(source as TicketSource)) {
+      throw new Error(
+        `❌ Invalid ticket source: "${source}". Must be one of: ${TICKET_SOURCES.join(", ")}`
+      );
+    }
+  }
+
+  return sources.length > 0 ? ([...new Set(sources)] as TicketSource[]) : ["title"];
+}
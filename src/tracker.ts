@@ -0,0 +1,34 @@
+import { csvTracker, xlsxTracker } from "./files";
+import { googleSheetsTracker } from "./sheets";
+import { GoogleCredentials, RetryOptions, TrackerBackend, TrackerKind } from "./types";
+
+export const TRACKER_KINDS: TrackerKind[] = ["google-sheets", "csv", "xlsx"];
+
+export function parseTrackerKind(input: string): TrackerKind {
+  const kind = (input.trim().toLowerCase() || "google-sheets") as TrackerKind;
+  if (!TRACKER_KINDS.includes(kind)) {
+    throw new Error(`❌ Invalid tracker: "${input}". Must be one of: ${TRACKER_KINDS.join(", ")}`);
+  }
+  return kind;
+}
+
+// Google Sheets needs the spreadsheet and credentials; file trackers need tracker-path
+// (a directory of CSV files, one per tab, or an .xlsx workbook)
+export function createTracker(
+  kind: TrackerKind,
+  settings: {
+    spreadsheetId: string;
+    credentials: GoogleCredentials | null;
+    path: string;
+    retry: RetryOptions;
+  }
+): TrackerBackend {
+  switch (kind) {
+    case "csv":
+      return csvTracker(settings.path);
+    case "xlsx":
+      return xlsxTracker(settings.path);
+    default:
+      return googleSheetsTracker(settings.credentials!, settings.spreadsheetId, settings.retry);
+  }
+}
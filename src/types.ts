@@ -5,6 +5,354 @@ export interface PRInfo {
   environment: string;
   app: string;
   url: string;
+  // Details from Jira, when enrichment is enabled and the ticket was found
+  jira?: JiraIssue;
+  // Every change for the ticket in the compared range was reverted (see reverted-tickets)
+  reverted?: boolean;
+}
+
+export interface JiraIssue {
+  key: string;
+  summary: string;
+  status: string;
+  assignee: string;
+  issueType: string;
 }
 
 export type Environment = "internal" | "stage" | "production";
+
+// Outcome of a Jira transition or comment for one ticket
+export interface JiraUpdateResult {
+  issue: string;
+  action: "transition" | "comment";
+  ok: boolean;
+  message: string;
+}
+
+export type ColumnField =
+  | "issue"
+  | "status"
+  | "assignee"
+  | "environment"
+  | "app"
+  | "title"
+  | "pr"
+  | "type";
+
+export type VersionCellField = "new-version" | "last-version";
+
+// Column positions resolved from the header row (zero-based indices)
+export interface ColumnLayout {
+  headerRowIndex: number;
+  columns: Record<"issue" | "status" | "assignee" | "environment" | "app", number> &
+    Partial<Record<"title" | "pr" | "type", number>>;
+}
+
+// Configured header names and version cell specs (A1 cell, named range or label)
+export interface SheetLayout {
+  headers: Record<ColumnField, string>;
+  versionCells: Record<VersionCellField, string>;
+}
+
+// A single cell write (row is 1-based as in the sheet, column is zero-based)
+export interface CellUpdate {
+  row: number;
+  column: number;
+  value: string;
+}
+
+// A ticket row touched by a sync, with the environment and App cell before and after
+export interface PlannedTicket {
+  issue: string;
+  row: number;
+  fromEnvironment: string;
+  toEnvironment: string;
+  fromApp: string;
+  toApp: string;
+}
+
+// Every change a sync will make, computed before anything is written
+export interface SyncPlan {
+  added: PlannedTicket[];
+  updated: PlannedTicket[];
+  // Existing rows left alone because the update would move them to an earlier environment
+  skipped: PlannedTicket[];
+  cells: CellUpdate[];
+}
+
+// Sheet settings for a sync run
+export interface SyncOptions {
+  sheetName: string;
+  version: string;
+  jiraBaseUrl: string;
+  ticketPattern: RegExp;
+  layout: SheetLayout;
+  // One row per (ticket, app) pair instead of one row per ticket
+  rowPerApp: boolean;
+  // Canonical environments from earliest to latest (e.g., internal, stage, production)
+  environmentOrder: string[];
+  allowDowngrade: boolean;
+  // Apps and environments (labels written to the sheet)
+  config: ActionConfig;
+  // Held around the sync and the production cycle (not taken in a dry run)
+  lock: LockOptions;
+  audit: AuditOptions;
+  // Naming and retention of the tabs archived by production deploys
+  archive: ArchiveOptions;
+  dryRun: boolean;
+}
+
+// What happens to archive tabs beyond the retention count
+export type ArchiveRetentionAction = "hide" | "delete" | "move";
+
+export interface ArchiveRetention {
+  // Archive tabs to keep as they are (newest first), null to keep every archive
+  keep: number | null;
+  action: ArchiveRetentionAction;
+  // Where "move" puts old archives: a spreadsheet ID, a directory (csv) or a workbook (xlsx)
+  destination: string;
+}
+
+export interface ArchiveOptions {
+  // Tab name with {date}, {version} and {app} placeholders (e.g., "{date} {version}")
+  nameTemplate: string;
+  // IANA time zone for {date} (e.g., "Europe/Oslo"), empty for the runner's local time
+  timeZone: string;
+  // App deployed (for {app})
+  app: string;
+  retention: ArchiveRetention;
+}
+
+export interface VersionChange {
+  sheet: string;
+  cell: string;
+  from: string;
+  to: string;
+}
+
+// A tab of the spreadsheet as listed in its metadata
+export interface SheetTab {
+  sheetId: number;
+  title: string;
+  index: number;
+  hidden?: boolean;
+}
+
+export interface TabOperation {
+  action: "rename" | "copy" | "move" | "hide" | "delete";
+  from: string;
+  to: string;
+}
+
+// What a sync changed (or, in a dry run, would change)
+export interface SyncResult {
+  sheetName: string;
+  dryRun: boolean;
+  plan: SyncPlan;
+  versions: VersionChange[];
+  tabs: TabOperation[];
+  archiveName: string | null;
+  // The archive keeps the sheet id of the archived "Next" tab (for links to it)
+  archiveSheetId: number | null;
+}
+
+// A cycle interrupted by an earlier run: the archive and the Template copy exist but "Next"
+// does not
+export interface CycleRepair {
+  // Latest archive tab, holding the version deployed in the interrupted cycle
+  archive: SheetTab;
+  // Leftover copy of the Template to turn into "Next"
+  templateCopy: SheetTab;
+}
+
+// A version cell to set on a new "Next" tab (e.g., "Last version" in A2)
+export interface VersionCellValue {
+  cell: string;
+  value: string;
+}
+
+// Google credentials JSON (service_account or external_account), validated by its type
+export interface GoogleCredentials {
+  type: string;
+  [field: string]: unknown;
+}
+
+// Where releases are tracked, selected by the tracker input
+export type TrackerKind = "google-sheets" | "csv" | "xlsx";
+
+// Storage behind a sync: tabs of rows, like a spreadsheet. The sync plans every change
+// from the rows it reads, so backends only read and write.
+export interface TrackerBackend {
+  // Shown in logs (spreadsheet URL or file path)
+  location: string;
+  // Tabs in display order
+  listTabs(): Promise<SheetTab[]>;
+  readRows(tab: string): Promise<unknown[][]>;
+  // A1 cell of a named range on the tab, null when there is none
+  findNamedCell(tab: string, name: string): Promise<string | null>;
+  // Upsert ticket rows and set the version cell in one write
+  writeCells(tab: string, cells: CellUpdate[]): Promise<void>;
+  // Rename the tab to the archive name and start a new one from the Template, as the first tab
+  archiveCycle(
+    sheetName: string,
+    archiveName: string,
+    lastVersion: VersionCellValue | null
+  ): Promise<void>;
+  // Recreate the tab after an interrupted archive (see CycleRepair)
+  restoreCycle(
+    sheetName: string,
+    repair: CycleRepair,
+    lastVersion: VersionCellValue | null
+  ): Promise<void>;
+  // Hide, delete or move archive tabs past the retention count (see ArchiveRetention)
+  retireTabs(tabs: string[], retention: ArchiveRetention): Promise<void>;
+  // Append rows to the audit log, creating its tab with the header row when missing
+  appendAuditRows(tab: string, rows: string[][]): Promise<void>;
+  // Wait for exclusive access
+  lock(options: LockOptions): Promise<TrackerLock>;
+}
+
+export interface PRInfoResult {
+  prInfos: PRInfo[];
+  baseTag: string;
+}
+
+// How tag names are ordered when looking for the previous deployment tag
+export type TagScheme = "natural" | "semver" | "date" | "build";
+
+// Where tickets are looked for on a pull request
+export type TicketSource = "title" | "body" | "branch" | "commits";
+
+// What to do with tickets whose changes were reverted within the compared range
+export type RevertedTickets = "mark" | "skip";
+
+// Where getPRInfo looks for tickets, in priority order (see getPRInfo)
+export interface PRInfoOptions {
+  app: string;
+  environment: string;
+  jiraTickets: string;
+  baseTag: string;
+  headTag: string;
+  tagSuffix: string;
+  tagScheme: TagScheme;
+  ticketPattern: RegExp;
+  ticketSources: TicketSource[];
+  revertedTickets: RevertedTickets;
+  owner: string;
+  repo: string;
+  // Pull request to read tickets from when there are no explicit tickets or tags
+  prNumber: number | null;
+  retry: RetryOptions;
+}
+
+export interface AppConfig {
+  name: string;
+  // Value written to the App column (matches the sheet dropdown)
+  label: string;
+}
+
+export interface EnvironmentConfig {
+  name: string;
+  // Value written to the Environment column (matches the sheet dropdown)
+  label: string;
+  aliases: string[];
+  // Default tag-suffix for auto-detecting the previous tag, empty for none
+  tagSuffix: string;
+  // Deploys here archive the sheet and start a new cycle (one environment, the last by default)
+  archive: boolean;
+}
+
+// Apps and environments from the repository config file (or the defaults)
+export interface ActionConfig {
+  apps: AppConfig[];
+  // Earliest to latest
+  environments: EnvironmentConfig[];
+}
+
+// Retries of Google and GitHub API calls that failed with a transient error
+export interface RetryOptions {
+  // Tries per call, including the first
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface LockOptions {
+  // Shown to other runs waiting for the lock (workflow, run id, app and environment)
+  owner: string;
+  // How long to wait for another run's lock before failing
+  timeoutSeconds: number;
+  // After this long a lock is considered stale (its run crashed) and is removed
+  ttlSeconds: number;
+}
+
+// Spreadsheet lock as stored in developer metadata
+export interface SpreadsheetLock {
+  metadataId: number;
+  owner: string;
+  // Epoch milliseconds; the earliest lock wins (metadata ids are not ordered)
+  createdAt: number;
+  // Epoch milliseconds
+  expiresAt: number;
+}
+
+// Exclusive access to a tracker, held from TrackerBackend.lock until released
+export interface TrackerLock {
+  // Check the lock is still held and extend it by its TTL; throws when it was lost
+  renew(): Promise<void>;
+  release(): Promise<void>;
+}
+
+// Deployment details written to the audit log tab
+export interface AuditOptions {
+  // Log tab name, created when missing
+  tabName: string;
+  baseTag: string;
+  headTag: string;
+  actor: string;
+  // Link to the GitHub Actions run
+  runUrl: string;
+}
+
+export type ReleaseNotesFormat = "markdown" | "html" | "text";
+
+export interface ReleaseNotesOptions {
+  version: string;
+  baseTag: string;
+  headTag: string;
+  environment: string;
+  jiraBaseUrl: string;
+  config: ActionConfig;
+}
+
+export interface NotifyOptions {
+  slackWebhookUrl: string;
+  teamsWebhookUrl: string;
+  // Message with {placeholders}, see action.yml
+  template: string;
+  spreadsheetId: string;
+  version: string;
+  jiraBaseUrl: string;
+  config: ActionConfig;
+}
+
+// Repository and run details, from github.context in the Action or from flags in the CLI
+export interface RunContext {
+  owner: string;
+  repo: string;
+  // Pull request that triggered the run, used when no tickets or tags are given
+  prNumber: number | null;
+  actor: string;
+  // Identifies the run to other runs waiting for the spreadsheet lock
+  runName: string;
+  runUrl: string;
+}
+
+// Where a sync reads its inputs and reports its results: the GitHub Action or the CLI
+export interface RunHost {
+  // Input value by action.yml name, empty when not set
+  getInput(name: string): string;
+  setSecret(value: string): void;
+  setOutputs(outputs: Record<string, string>): void;
+  context: RunContext;
+}
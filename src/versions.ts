@@ -0,0 +1,69 @@
+import { TagScheme } from "./types";
+
+export const TAG_SCHEMES: TagScheme[] = ["natural", "semver", "date", "build"];
+
+export function parseTagScheme(input: string): TagScheme {
+  const scheme = (input.trim().toLowerCase() || "natural") as TagScheme;
+  if (!TAG_SCHEMES.includes(scheme)) {
+    throw new Error(`❌ Invalid tag-scheme: "${input}". Must be one of: ${TAG_SCHEMES.join(", ")}`);
+  }
+  return scheme;
+}
+
+function stripSuffix(name: string, suffix: string): string {
+  return suffix && name.endsWith(`-${suffix}`) ? name.slice(0, -(suffix.length + 1)) : name;
+}
+
+function integers(text: string): number[] {
+  return (text.match(/\d+/g) ?? []).map((n) => parseInt(n, 10));
+}
+
+// Numeric sort key for a tag, or null when the tag does not follow the scheme
+// - natural: every number in the name (v1.10.0 → [1, 10, 0], 20250615.31712.0 → [20250615, 31712, 0])
+// - semver:  major.minor.patch, with pre-releases before the release (1.0.0-rc.1 < 1.0.0)
+// - date:    YYYY-MM-DD, YYYY.MM.DD or YYYYMMDD, then any numbers after the date
+// - build:   the last number in the name (build-123 → [123])
+export function tagSortKey(name: string, scheme: TagScheme, suffix = ""): number[] | null {
+  const version = stripSuffix(name, suffix);
+
+  switch (scheme) {
+    case "semver": {
+      const match = version.match(/^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/);
+      if (!match) return null;
+      const release = [match[1], match[2], match[3]].map((n) => parseInt(n, 10));
+      return match[4] ? [...release, 0, ...integers(match[4])] : [...release, 1];
+    }
+    case "date": {
+      const match = version.match(/(\d{4})[-.]?(\d{1,2})[-.]?(\d{1,2})(.*)$/);
+      if (!match) return null;
+      const [year, month, day] = [match[1], match[2], match[3]].map((n) => parseInt(n, 10));
+      if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+      return [year, month, day, ...integers(match[4])];
+    }
+    case "build": {
+      const numbers = integers(version);
+      return numbers.length > 0 ? [numbers[numbers.length - 1]] : null;
+    }
+    default: {
+      const numbers = integers(version);
+      return numbers.length > 0 ? numbers : null;
+    }
+  }
+}
+
+// Compare two sort keys element by element; a longer key wins a tie (1.0.0.1 > 1.0.0)
+export function compareSortKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+// Tags that follow the scheme, newest first. Tags that do not follow it are left out.
+export function sortTagsDescending(names: string[], scheme: TagScheme, suffix = ""): string[] {
+  return names
+    .map((name) => ({ name, key: tagSortKey(name, scheme, suffix) }))
+    .filter((t): t is { name: string; key: number[] } => t.key !== null)
+    .sort((a, b) => compareSortKeys(b.key, a.key) || b.name.localeCompare(a.name))
+    .map((t) => t.name);
+}